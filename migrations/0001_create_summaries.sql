@@ -0,0 +1,27 @@
+-- Archive of every summary the bot has posted, searched by /summaries search
+CREATE TABLE IF NOT EXISTS summaries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  -- Workspace the summary was posted in
+  team_id TEXT,
+  url TEXT NOT NULL,
+  title TEXT,
+  summary TEXT NOT NULL,
+  -- Space-separated tags: the link's domain, then the summary's topic tags (spaces replaced with hyphens)
+  tags TEXT NOT NULL DEFAULT '',
+  channel TEXT NOT NULL,
+  -- 0 only for public channels; private channels, DMs and channels of unknown type are
+  -- searchable from that channel alone
+  is_private INTEGER NOT NULL DEFAULT 1,
+  user TEXT,
+  permalink TEXT,
+  language TEXT,
+  model TEXT,
+  -- Unix time in milliseconds
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_summaries_created_at ON summaries (created_at);
+CREATE INDEX IF NOT EXISTS idx_summaries_channel_created_at ON summaries (channel, created_at);
+CREATE INDEX IF NOT EXISTS idx_summaries_user_created_at ON summaries (user, created_at);
+CREATE INDEX IF NOT EXISTS idx_summaries_private_created_at ON summaries (is_private, created_at);
+CREATE INDEX IF NOT EXISTS idx_summaries_team_created_at ON summaries (team_id, created_at);
@@ -0,0 +1,167 @@
+import { collectUrls, expandShortUrls, getUrlFilterOptions } from "./extract";
+import { applyUrlPolicy, describePolicyReason, getUrlPolicy } from "./policy";
+import { createSummarizationProvider } from "./provider";
+import { convertMrkdwn, SummaryTextFormat } from "./render";
+import { summarizeUrls } from "./summarize";
+import type { Env, SummaryChapter, SummaryStyle, TokenUsage } from "./types";
+
+// Body of POST /api/summarize
+export interface SummarizeApiRequest {
+  urls: string[];
+  language: string;
+  style: SummaryStyle;
+  format: SummaryTextFormat;
+}
+
+export type SummarizeApiResult =
+  | {
+      // The URL as given in the request
+      url: string;
+      ok: true;
+      // The URL that was summarized, after normalization and redaction
+      resolvedUrl: string;
+      title?: string;
+      // tldr, bullets and key facts together, in the requested format
+      summary: string;
+      tldr: string;
+      bullets: string[];
+      keyFacts: string[];
+      readingTimeMinutes?: number;
+      tags: string[];
+      sourceLanguage?: string;
+      // Only for videos
+      chapters?: SummaryChapter[];
+      language?: string;
+      provider?: string;
+      model?: string;
+      cached: boolean;
+      usage?: TokenUsage;
+    }
+  | { url: string; ok: false; error: string };
+
+export interface SummarizeApiResponse {
+  results: SummarizeApiResult[];
+  usage: TokenUsage;
+}
+
+const MAX_API_URLS = 10;
+const STYLES: SummaryStyle[] = ["short", "standard", "detailed"];
+const FORMATS: SummaryTextFormat[] = ["mrkdwn", "markdown", "text"];
+
+// Validates the JSON body; returns an error message for a 400 response
+export function parseSummarizeApiRequest(
+  body: unknown
+): { ok: true; request: SummarizeApiRequest } | { ok: false; error: string } {
+  if (!body || typeof body !== "object") {
+    return { ok: false, error: "Request body must be a JSON object" };
+  }
+
+  const { urls, language = "ja", style = "standard", format = "mrkdwn" } = body as Record<string, unknown>;
+
+  if (!Array.isArray(urls) || urls.length === 0 || !urls.every(url => typeof url === "string")) {
+    return { ok: false, error: "urls must be a non-empty array of strings" };
+  }
+  if (urls.length > MAX_API_URLS) {
+    return { ok: false, error: `At most ${MAX_API_URLS} urls can be summarized per request` };
+  }
+  if (typeof language !== "string" || !/^[a-z]{2,3}(-[a-z0-9]+)?$/i.test(language)) {
+    return { ok: false, error: "language must be a language code such as ja or en" };
+  }
+  if (!STYLES.includes(style as SummaryStyle)) {
+    return { ok: false, error: `style must be one of ${STYLES.join(", ")}` };
+  }
+  if (!FORMATS.includes(format as SummaryTextFormat)) {
+    return { ok: false, error: `format must be one of ${FORMATS.join(", ")}` };
+  }
+
+  return {
+    ok: true,
+    request: {
+      urls,
+      language: language.toLowerCase(),
+      style: style as SummaryStyle,
+      format: format as SummaryTextFormat
+    }
+  };
+}
+
+// Runs the same pipeline as Slack messages: normalization, URL policy, cache and provider
+export async function processSummarizeApiRequest(
+  request: SummarizeApiRequest,
+  env: Env
+): Promise<SummarizeApiResponse> {
+  const urlOptions = getUrlFilterOptions(env);
+  const policy = getUrlPolicy(env);
+
+  // Each input is resolved on its own so the results line up with the request
+  const targets = await Promise.all(request.urls.map(async input => {
+    const [url] = await expandShortUrls(collectUrls([input], 1, urlOptions), urlOptions);
+    if (!url) {
+      return { input, error: "URLとして認識できないか、要約の対象外です" };
+    }
+
+    const { allowed, blocked } = applyUrlPolicy([url], policy, { source: "api" });
+    if (blocked.length > 0) {
+      return { input, error: describePolicyReason(blocked[0].reason) };
+    }
+    return { input, url: allowed[0] };
+  }));
+
+  const urls = Array.from(new Set(targets.flatMap(target => target.url ? [target.url] : [])));
+  console.log(`API summarize request for ${urls.length} URLs`);
+
+  // API calls are not tied to a Slack workspace, channel or user, so only the API's own monthly budget applies
+  const outcomes = urls.length > 0
+    ? await summarizeUrls(urls, createSummarizationProvider(env), env, {
+        language: request.language,
+        style: request.style,
+        usage: {}
+      })
+    : [];
+  const byUrl = new Map(outcomes.map(outcome => [outcome.url, outcome]));
+
+  const results = targets.map((target): SummarizeApiResult => {
+    const outcome = target.url ? byUrl.get(target.url) : undefined;
+    if (!outcome) {
+      return { url: target.input, ok: false, error: target.error ?? "要約中にエラーが発生しました" };
+    }
+    if (!outcome.ok) {
+      return { url: target.input, ok: false, error: outcome.reason };
+    }
+
+    const { result } = outcome;
+    const { structured } = result;
+    const convert = (text: string) => convertMrkdwn(text, request.format);
+    return {
+      url: target.input,
+      ok: true,
+      resolvedUrl: outcome.url,
+      title: result.title,
+      summary: convert(result.summary),
+      tldr: convert(structured.tldr),
+      bullets: structured.bullets.map(convert),
+      keyFacts: structured.keyFacts.map(convert),
+      readingTimeMinutes: structured.readingTimeMinutes,
+      tags: structured.tags,
+      sourceLanguage: structured.sourceLanguage,
+      chapters: structured.chapters?.map(chapter => ({ ...chapter, title: convert(chapter.title) })),
+      language: result.language,
+      provider: result.provider,
+      model: result.model,
+      cached: !!result.cached,
+      usage: result.usage
+    };
+  });
+
+  // Duplicate inputs share one outcome, so usage is summed per summarized URL
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+  for (const outcome of outcomes) {
+    if (outcome.ok && outcome.result.usage) {
+      usage.inputTokens += outcome.result.usage.inputTokens;
+      usage.outputTokens += outcome.result.usage.outputTokens;
+      usage.totalTokens += outcome.result.usage.totalTokens;
+    }
+  }
+
+  return { results, usage };
+}
@@ -0,0 +1,244 @@
+import type { SummarySource } from "./history";
+import type { UrlSummarySuccess } from "./summarize";
+import type { Env } from "./types";
+
+// A summary as stored in the D1 archive (see migrations/0001_create_summaries.sql)
+export interface ArchivedSummary {
+  id: number;
+  team?: string;
+  url: string;
+  title?: string;
+  summary: string;
+  tags: string[];
+  channel: string;
+  user?: string;
+  permalink?: string;
+  language?: string;
+  model?: string;
+  createdAt: number;
+}
+
+interface SummaryRow {
+  id: number;
+  team_id: string | null;
+  url: string;
+  title: string | null;
+  summary: string;
+  tags: string;
+  channel: string;
+  user: string | null;
+  permalink: string | null;
+  language: string | null;
+  model: string | null;
+  created_at: number;
+}
+
+export interface ArchiveFilters {
+  team?: string;
+  channel?: string;
+  user?: string;
+  // Unix time in milliseconds; since is inclusive, until exclusive
+  since?: number;
+  until?: number;
+}
+
+export interface ArchiveSearch extends ArchiveFilters {
+  // Words that must all appear in the title, summary, URL or tags
+  terms: string[];
+  // Channel the search runs in: results are limited to it and to public channels
+  viewerChannel?: string;
+}
+
+const MAX_SEARCH_TERMS = 5;
+
+export async function archiveSummaries(
+  env: Env,
+  source: SummarySource,
+  summaries: UrlSummarySuccess[]
+): Promise<void> {
+  if (!env.ARCHIVE) {
+    return;
+  }
+
+  const createdAt = Date.now();
+  const insert = env.ARCHIVE.prepare(
+    `INSERT INTO summaries (team_id, url, title, summary, tags, channel, is_private, user, permalink, language, model, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+
+  await env.ARCHIVE.batch(summaries.map(({ url, result }) => insert.bind(
+    source.team ?? null,
+    url,
+    result.title ?? null,
+    result.summary,
+    tagsFor(url, result.structured.tags).join(" "),
+    source.channel,
+    // Slash commands and mentions do not say whether the channel is public, so they count as private
+    source.channelType === "channel" ? 0 : 1,
+    source.poster ?? null,
+    source.permalink ?? null,
+    result.language ?? null,
+    result.model ?? null,
+    createdAt
+  )));
+
+  console.log(`Archived ${summaries.length} summaries from ${source.channel}`);
+}
+
+// Newest matches first, with title matches ranked above matches in the body.
+// LIKE rather than FTS5: the default tokenizer cannot split Japanese text into words.
+export async function searchArchive(
+  db: D1Database,
+  search: ArchiveSearch,
+  limit: number
+): Promise<ArchivedSummary[]> {
+  const { clauses, params } = buildFilters(search);
+  const terms = search.terms.slice(0, MAX_SEARCH_TERMS).map(term => `%${escapeLike(term.toLowerCase())}%`);
+
+  // Summaries from private channels and DMs never show up in another channel
+  if (search.viewerChannel) {
+    clauses.push("(channel = ? OR is_private = 0)");
+    params.push(search.viewerChannel);
+  }
+
+  for (const term of terms) {
+    clauses.push(`(lower(title) LIKE ? ESCAPE '\\' OR lower(summary) LIKE ? ESCAPE '\\' OR lower(url) LIKE ? ESCAPE '\\' OR lower(tags) LIKE ? ESCAPE '\\')`);
+    params.push(term, term, term, term);
+  }
+
+  const score = terms.length > 0
+    ? terms.map(() => `(CASE WHEN lower(title) LIKE ? ESCAPE '\\' THEN 1 ELSE 0 END)`).join(" + ")
+    : "0";
+
+  const { results } = await db.prepare(
+    `SELECT * FROM summaries
+     ${clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : ""}
+     ORDER BY ${score} DESC, created_at DESC
+     LIMIT ?`
+  ).bind(...params, ...terms, limit).all<SummaryRow>();
+
+  return results.map(toArchivedSummary);
+}
+
+// Oldest first, paged by id, for the JSON export endpoint
+export async function exportArchive(
+  db: D1Database,
+  filters: ArchiveFilters,
+  options: { afterId?: number; limit: number }
+): Promise<ArchivedSummary[]> {
+  const { clauses, params } = buildFilters(filters);
+
+  if (options.afterId !== undefined) {
+    clauses.push("id > ?");
+    params.push(options.afterId);
+  }
+
+  const { results } = await db.prepare(
+    `SELECT * FROM summaries
+     ${clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : ""}
+     ORDER BY id ASC
+     LIMIT ?`
+  ).bind(...params, options.limit).all<SummaryRow>();
+
+  return results.map(toArchivedSummary);
+}
+
+// Parses "<words> in:<#C123|general> from:<@U123> after:2025-01-01 before:2025-02-01".
+// "in:here" means the channel the command was run in. Only the current workspace is searched.
+export function parseArchiveSearch(text: string, currentChannel: string, team: string | undefined): ArchiveSearch {
+  const search: ArchiveSearch = { terms: [], team, viewerChannel: currentChannel };
+
+  for (const token of text.split(/\s+/).filter(Boolean)) {
+    const [key, ...rest] = token.split(":");
+    const value = rest.join(":");
+
+    if (key === "in" && value) {
+      search.channel = value === "here" ? currentChannel : parseSlackId(value, "#");
+    } else if (key === "from" && value) {
+      search.user = parseSlackId(value, "@");
+    } else if (key === "after" && parseDate(value) !== undefined) {
+      search.since = parseDate(value);
+    } else if (key === "before" && parseDate(value) !== undefined) {
+      search.until = parseDate(value);
+    } else {
+      search.terms.push(token);
+    }
+  }
+
+  return search;
+}
+
+function buildFilters(filters: ArchiveFilters): { clauses: string[]; params: unknown[] } {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.team) {
+    clauses.push("team_id = ?");
+    params.push(filters.team);
+  }
+  if (filters.channel) {
+    clauses.push("channel = ?");
+    params.push(filters.channel);
+  }
+  if (filters.user) {
+    clauses.push("user = ?");
+    params.push(filters.user);
+  }
+  if (filters.since !== undefined) {
+    clauses.push("created_at >= ?");
+    params.push(filters.since);
+  }
+  if (filters.until !== undefined) {
+    clauses.push("created_at < ?");
+    params.push(filters.until);
+  }
+
+  return { clauses, params };
+}
+
+// Accepts Slack's escaped mentions (<#C123|general>, <@U123|name>) as well as bare IDs
+function parseSlackId(value: string, sigil: "#" | "@"): string {
+  const escaped = value.match(new RegExp(`^<${sigil}([A-Z0-9]+)(\\|[^>]*)?>$`));
+  return escaped ? escaped[1] : value.replace(/^[#@]/, "");
+}
+
+// Dates are read as UTC midnight
+export function parseDate(value: string): number | undefined {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return undefined;
+  }
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, char => `\\${char}`);
+}
+
+// The domain plus the summary's topic tags; tags are stored space-separated, so spaces become hyphens
+function tagsFor(url: string, topics: string[]): string[] {
+  const tags = topics.map(topic => topic.toLowerCase().replace(/\s+/g, "-"));
+  try {
+    tags.unshift(new URL(url).hostname.replace(/^www\./, ""));
+  } catch {
+    // Only the topic tags
+  }
+  return Array.from(new Set(tags));
+}
+
+function toArchivedSummary(row: SummaryRow): ArchivedSummary {
+  return {
+    id: row.id,
+    team: row.team_id ?? undefined,
+    url: row.url,
+    title: row.title ?? undefined,
+    summary: row.summary,
+    tags: row.tags.split(" ").filter(Boolean),
+    channel: row.channel,
+    user: row.user ?? undefined,
+    permalink: row.permalink ?? undefined,
+    language: row.language ?? undefined,
+    model: row.model ?? undefined,
+    createdAt: row.created_at
+  };
+}
@@ -0,0 +1,61 @@
+import type { Env } from "./types";
+
+// API keys for the JSON endpoints, set with `wrangler secret put API_KEYS` (comma-separated)
+function getApiKeys(env: Env): string[] {
+  return (env.API_KEYS ?? "")
+    .split(",")
+    .map(key => key.trim())
+    .filter(Boolean);
+}
+
+// Accepts "Authorization: Bearer <key>" or "X-API-Key: <key>".
+// With no API_KEYS configured every request is rejected.
+export async function isAuthorizedApiRequest(request: Request, env: Env): Promise<boolean> {
+  const keys = getApiKeys(env);
+  if (keys.length === 0) {
+    console.warn("API request rejected: API_KEYS is not configured");
+    return false;
+  }
+
+  const header = request.headers.get("authorization");
+  const provided = header?.match(/^Bearer\s+(.+)$/i)?.[1] ?? request.headers.get("x-api-key");
+  if (!provided) {
+    return false;
+  }
+
+  // Compare digests so the check takes the same time whatever the key looks like
+  const providedDigest = await sha256(provided.trim());
+  let authorized = false;
+  for (const key of keys) {
+    if (constantTimeEqual(providedDigest, await sha256(key))) {
+      authorized = true;
+    }
+  }
+  return authorized;
+}
+
+export function unauthorizedResponse(): Response {
+  return new Response(JSON.stringify({ error: "unauthorized" }), {
+    status: 401,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "WWW-Authenticate": "Bearer"
+    }
+  });
+}
+
+async function sha256(value: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)));
+}
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
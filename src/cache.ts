@@ -0,0 +1,70 @@
+import { normalizeUrl } from "./extract";
+import type { SummaryResult, SummaryStyle } from "./types";
+
+// Summaries are cached for a day unless SUMMARY_CACHE_TTL says otherwise
+export const DEFAULT_SUMMARY_CACHE_TTL = 60 * 60 * 24;
+
+// KV rejects expirationTtl values below 60 seconds
+const MIN_KV_TTL = 60;
+
+export interface SummaryCacheKeyParts {
+  url: string;
+  model: string;
+  language: string;
+  style: SummaryStyle;
+  promptVersion: number;
+}
+
+export async function buildSummaryCacheKey(parts: SummaryCacheKeyParts): Promise<string> {
+  const normalized = normalizeUrl(parts.url);
+
+  // Hash the URL to stay well under KV's 512-byte key limit
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(normalized));
+  const hash = Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, "0"))
+    .join("");
+
+  return `summary:v${parts.promptVersion}:${parts.model}:${parts.language}:${parts.style}:${hash}`;
+}
+
+export function parseSummaryCacheTtl(value: string | undefined): number {
+  if (value === undefined || value.trim() === "") {
+    return DEFAULT_SUMMARY_CACHE_TTL;
+  }
+
+  const ttl = parseInt(value, 10);
+  if (Number.isNaN(ttl) || ttl < 0) {
+    console.warn(`Invalid SUMMARY_CACHE_TTL "${value}", using default`);
+    return DEFAULT_SUMMARY_CACHE_TTL;
+  }
+
+  // 0 disables caching entirely
+  return ttl === 0 ? 0 : Math.max(ttl, MIN_KV_TTL);
+}
+
+export async function getCachedSummary(
+  kv: KVNamespace,
+  key: string
+): Promise<SummaryResult | null> {
+  try {
+    return await kv.get<SummaryResult>(key, "json");
+  } catch (error) {
+    // A broken cache entry should never block summarization
+    console.error(`Failed to read summary cache ${key}:`, error);
+    return null;
+  }
+}
+
+export async function putCachedSummary(
+  kv: KVNamespace,
+  key: string,
+  result: SummaryResult,
+  ttl: number
+): Promise<void> {
+  try {
+    const { cached: _cached, ...entry } = result;
+    await kv.put(key, JSON.stringify(entry), { expirationTtl: ttl });
+  } catch (error) {
+    console.error(`Failed to write summary cache ${key}:`, error);
+  }
+}
@@ -0,0 +1,215 @@
+import { expandShortUrls, extractUrlsFromSlackText, getUrlFilterOptions } from "./extract";
+import { slackRespond } from "./slack";
+import { summarizeUrls } from "./summarize";
+import { recordPostedSummaries } from "./history";
+import { parseArchiveSearch, parseDate, searchArchive } from "./archive";
+import { isWorkspaceAdmin } from "./interactions";
+import { formatUsageReport, getUsageReport } from "./usage";
+import { createSummarizationProvider } from "./provider";
+import { buildSearchResultBlocks, buildSummaryBlocks, formatSummaryReply } from "./render";
+import { applyUrlPolicy, formatBlockedReply, getUrlPolicy } from "./policy";
+import { applyConfigCommand, getChannelSettings, isDomainAllowed, saveChannelSettings } from "./settings";
+import type { Env, SlackMessageBlock, SlackSlashCommandPayload, SummaryStyle } from "./types";
+
+export interface SummarizeCommandOptions {
+  urls: string[];
+  // Left undefined when no flag is given, so the channel settings apply
+  language?: string;
+  style?: SummaryStyle;
+  isPrivate: boolean;
+  refresh: boolean;
+}
+
+export const SUMMARIZE_USAGE = `使い方: \`/summarize <URL> [オプション]\`
+
+オプション:
+• \`--lang <code>\` 出力言語を指定（例: \`--lang en\`、デフォルト: チャンネル設定）
+• \`--short\` 短い要約（2〜3項目）
+• \`--detailed\` 詳しい要約（6〜10項目）
+• \`--private\` 自分だけに表示
+• \`--refresh\` キャッシュを使わずに要約し直す
+
+チャンネルの設定: \`/summarize config\`
+利用状況（管理者のみ）: \`/summarize usage [YYYY-MM-DD]\``;
+
+export const SUMMARIES_USAGE = `使い方: \`/summaries search <キーワード> [フィルタ]\`
+
+フィルタ:
+• \`in:#channel\` / \`in:here\` チャンネルで絞り込み
+• \`from:@user\` 共有したユーザーで絞り込み
+• \`after:2025-01-01\` / \`before:2025-02-01\` 期間で絞り込み（UTC）`;
+
+const MAX_SEARCH_RESULTS = 10;
+
+export function parseSummarizeCommand(text: string, env: Env): SummarizeCommandOptions {
+  const options: SummarizeCommandOptions = {
+    urls: extractUrlsFromSlackText(text, 20, getUrlFilterOptions(env)),
+    isPrivate: false,
+    refresh: false,
+  };
+
+  const tokens = text.split(/\s+/).filter(Boolean);
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token === "--short") {
+      options.style = "short";
+    } else if (token === "--detailed") {
+      options.style = "detailed";
+    } else if (token === "--private") {
+      options.isPrivate = true;
+    } else if (token === "--refresh") {
+      options.refresh = true;
+    } else if (token === "--lang" && tokens[i + 1]) {
+      options.language = tokens[++i].toLowerCase();
+    } else if (token.startsWith("--lang=")) {
+      options.language = token.slice("--lang=".length).toLowerCase() || undefined;
+    }
+  }
+
+  return options;
+}
+
+export async function processSummarizeCommand(
+  payload: SlackSlashCommandPayload,
+  options: SummarizeCommandOptions,
+  env: Env
+): Promise<void> {
+  const responseType = options.isPrivate ? "ephemeral" : "in_channel";
+
+  try {
+    console.log(`Processing /summarize from ${payload.user_id} in ${payload.channel_id}:`, options);
+
+    // Explicit flags win over the channel's configured defaults
+    const settings = await getChannelSettings(env.DEDUP, payload.channel_id);
+    const expanded = (await expandShortUrls(options.urls, getUrlFilterOptions(env)))
+      .filter(url => isDomainAllowed(url, settings));
+    const { allowed: urls, blocked } = applyUrlPolicy(expanded, getUrlPolicy(env), {
+      channel: payload.channel_id,
+      user: payload.user_id
+    });
+
+    if (blocked.length > 0) {
+      await slackRespond(payload.response_url, {
+        response_type: "ephemeral",
+        replace_original: false,
+        text: formatBlockedReply(blocked)
+      });
+    }
+
+    if (urls.length === 0) {
+      if (blocked.length === 0) {
+        await slackRespond(payload.response_url, {
+          response_type: "ephemeral",
+          replace_original: false,
+          text: "⚠️ このチャンネルの設定で除外されているドメインのため、要約できません。"
+        });
+      }
+      return;
+    }
+
+    const provider = createSummarizationProvider(env);
+    const outcomes = await summarizeUrls(urls, provider, env, {
+      language: options.language ?? settings.language,
+      style: options.style ?? settings.style,
+      refresh: options.refresh,
+      usage: { team: payload.team_id, channel: payload.channel_id, user: payload.user_id }
+    });
+
+    await slackRespond(payload.response_url, {
+      response_type: responseType,
+      replace_original: false,
+      text: formatSummaryReply(outcomes),
+      blocks: buildSummaryBlocks(outcomes)
+    });
+
+    // Private summaries stay out of the channel's digest
+    if (!options.isPrivate) {
+      await recordPostedSummaries(env, { team: payload.team_id, channel: payload.channel_id, poster: payload.user_id }, outcomes);
+    }
+  } catch (error) {
+    console.error("Error processing /summarize command:", error);
+
+    // Errors are only shown to the user who ran the command
+    try {
+      await slackRespond(payload.response_url, {
+        response_type: "ephemeral",
+        replace_original: false,
+        text: "⚠️ 申し訳ございません。URLの要約中にエラーが発生しました。"
+      });
+    } catch (respondError) {
+      // The response_url expires after 30 minutes
+      console.error("Failed to send /summarize error response:", respondError);
+    }
+  }
+}
+
+// Handles "/summarize config ..." and returns the ephemeral reply text
+export async function processConfigCommand(
+  payload: SlackSlashCommandPayload,
+  args: string[],
+  env: Env
+): Promise<string> {
+  const current = await getChannelSettings(env.DEDUP, payload.channel_id);
+  const result = applyConfigCommand(current, args, payload.user_id);
+
+  if (result.changed) {
+    await saveChannelSettings(env.DEDUP, payload.channel_id, { ...result.settings, team: payload.team_id });
+    console.log(`Channel ${payload.channel_id} settings updated by ${payload.user_id}:`, result.settings);
+  }
+
+  return result.message;
+}
+
+// Handles "/summarize usage [date]" for workspace admins and returns the ephemeral reply text
+export async function processUsageCommand(
+  payload: SlackSlashCommandPayload,
+  args: string[],
+  env: Env
+): Promise<string> {
+  if (!(await isWorkspaceAdmin(payload.user_id, env))) {
+    return "⚠️ 利用状況を確認できるのはワークスペース管理者のみです。";
+  }
+
+  const date = args[0];
+  if (date && parseDate(date) === undefined) {
+    return "使い方: `/summarize usage [YYYY-MM-DD]`（日付は UTC、省略時は今日）";
+  }
+
+  const report = await getUsageReport(env, {
+    team: payload.team_id,
+    channel: payload.channel_id,
+    user: payload.user_id
+  }, date);
+
+  return formatUsageReport(report);
+}
+
+// Handles "/summaries search ..." and returns the ephemeral response body
+export async function processSummariesCommand(
+  payload: SlackSlashCommandPayload,
+  env: Env
+): Promise<{ text: string; blocks?: SlackMessageBlock[] }> {
+  const [subcommand, ...rest] = (payload.text ?? "").trim().split(/\s+/);
+
+  if (subcommand !== "search") {
+    return { text: SUMMARIES_USAGE };
+  }
+
+  if (!env.ARCHIVE) {
+    return { text: "⚠️ 要約アーカイブが設定されていません（D1 の `ARCHIVE` バインディングが必要です）。" };
+  }
+
+  const search = parseArchiveSearch(rest.join(" "), payload.channel_id, payload.team_id);
+  console.log(`Searching archive for ${payload.user_id}:`, search);
+
+  const results = await searchArchive(env.ARCHIVE, search, MAX_SEARCH_RESULTS);
+  const query = search.terms.join(" ");
+
+  return {
+    text: results.length > 0
+      ? `🔎 ${results.length}件の要約が見つかりました。`
+      : "🔎 一致する要約は見つかりませんでした。",
+    blocks: buildSearchResultBlocks(query, results)
+  };
+}
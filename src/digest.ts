@@ -0,0 +1,138 @@
+import { postMessageRateLimited } from "./rate-limiter";
+import { buildDigestBlocks, formatDigestText } from "./render";
+import { listChannelSettings } from "./settings";
+import { getTeamEnv } from "./installations";
+import type { SummarySource } from "./history";
+import type { UrlSummarySuccess } from "./summarize";
+import type { Env } from "./types";
+
+// One summarized link, kept until the next weekly digest has gone out
+export interface DigestEntry {
+  url: string;
+  title?: string;
+  channel: string;
+  poster?: string;
+  // Link back to the message the URL was shared in
+  permalink?: string;
+  summary: string;
+  tldr?: string;
+  postedAt: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Weekly digests go out on Mondays (UTC)
+const WEEKLY_DIGEST_DAY = 1;
+// A little longer than a week, so the weekly digest always finds its entries
+const DIGEST_ENTRY_TTL = 60 * 60 * 24 * 8;
+
+// digest:<channel>:<team>:<postedAt>:<id>. Shared channels keep the same ID in every workspace,
+// so entries are listed per team; without a team (single-workspace setups) all teams match.
+function entryPrefix(channel: string, team?: string): string {
+  return team ? `digest:${channel}:${team}:` : `digest:${channel}:`;
+}
+
+export async function addDigestEntries(
+  env: Env,
+  source: SummarySource,
+  summaries: UrlSummarySuccess[]
+): Promise<void> {
+  const postedAt = Date.now();
+
+  for (const { url, result } of summaries) {
+    const entry: DigestEntry = {
+      url,
+      title: result.title,
+      channel: source.channel,
+      poster: source.poster,
+      permalink: source.permalink,
+      summary: result.summary,
+      tldr: result.structured.tldr || undefined,
+      postedAt
+    };
+
+    // Zero-padded timestamps keep keys in chronological order
+    const key = `${entryPrefix(source.channel, source.team ?? "-")}${String(postedAt).padStart(15, "0")}:${crypto.randomUUID().slice(0, 8)}`;
+    await env.DEDUP.put(key, JSON.stringify(entry), { expirationTtl: DIGEST_ENTRY_TTL });
+  }
+}
+
+export async function listDigestEntries(
+  kv: KVNamespace,
+  channel: string,
+  team: string | undefined,
+  since: number
+): Promise<DigestEntry[]> {
+  const prefix = entryPrefix(channel, team);
+  const names: string[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list({ prefix, cursor });
+    for (const key of page.keys) {
+      // The team segment is only part of the prefix when listing one team
+      const parts = key.name.slice(prefix.length).split(":");
+      const postedAt = parseInt(parts[parts.length - 2], 10);
+      if (postedAt >= since) {
+        names.push(key.name);
+      }
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  const entries = await Promise.all(names.map(name => kv.get<DigestEntry>(name, "json")));
+
+  // The same link shared twice only appears once, with its latest summary
+  const byUrl = new Map<string, DigestEntry>();
+  for (const entry of entries) {
+    if (entry) {
+      byUrl.set(entry.url, entry);
+    }
+  }
+  return Array.from(byUrl.values());
+}
+
+// Called from the cron trigger: daily digests every run, weekly digests on WEEKLY_DIGEST_DAY
+export async function sendScheduledDigests(env: Env, scheduledTime: number): Promise<void> {
+  const isWeeklyDay = new Date(scheduledTime).getUTCDay() === WEEKLY_DIGEST_DAY;
+  const channels = await listChannelSettings(env.DEDUP);
+
+  for (const { channel, settings } of channels) {
+    if (!settings.enabled || settings.digest === "off") continue;
+    if (settings.digest === "weekly" && !isWeeklyDay) continue;
+
+    const days = settings.digest === "weekly" ? 7 : 1;
+
+    try {
+      // Channels configured before multi-workspace support have no team and use SLACK_BOT_TOKEN
+      const teamEnv = await getTeamEnv(env, settings.team);
+      if (!teamEnv) continue;
+
+      const entries = await listDigestEntries(env.DEDUP, channel, settings.team, scheduledTime - days * DAY_MS);
+
+      // Quiet periods are skipped rather than posting an empty digest
+      if (entries.length === 0) {
+        console.log(`No links for the ${settings.digest} digest in ${channel}`);
+        continue;
+      }
+
+      const title = settings.digest === "weekly" ? "📰 今週のリンクまとめ" : "📰 今日のリンクまとめ";
+      const message = {
+        text: formatDigestText(title, entries),
+        blocks: buildDigestBlocks(title, entries)
+      };
+
+      await postMessageRateLimited(teamEnv, { channel, ...message });
+
+      // Sending to a user ID posts in the app's DM with that user
+      for (const user of settings.digestSubscribers) {
+        await postMessageRateLimited(teamEnv, { channel: user, ...message }).catch(error => {
+          console.error(`Failed to send digest DM to ${user}:`, error);
+        });
+      }
+
+      console.log(`Posted ${settings.digest} digest with ${entries.length} links to ${channel}`);
+    } catch (error) {
+      console.error(`Failed to post digest for ${channel}:`, error);
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { sleep } from "./slack";
+
+// Why a summary could not be produced, independent of the provider
+export type SummaryErrorReason =
+  // The page could not be retrieved (login wall, bot blocking, 4xx); our own fetch may still work
+  | "fetch_blocked"
+  | "paywalled"
+  | "timeout"
+  // Provider rate limit or quota (HTTP 429)
+  | "quota_exceeded"
+  // Refused by the provider's safety filters, or the page was judged unsafe
+  | "safety_blocked"
+  | "empty_response"
+  // Provider HTTP 5xx or a network failure on the way to it
+  | "upstream_error";
+
+const RETRYABLE_REASONS: SummaryErrorReason[] = ["timeout", "quota_exceeded", "empty_response", "upstream_error"];
+
+// Three attempts in total, with full-jitter exponential backoff between them
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 8000;
+// A longer Retry-After means the quota is gone for a while; the request fails instead of waiting
+const MAX_RETRY_AFTER_SECONDS = 20;
+
+export class SummaryError extends Error {
+  constructor(
+    public readonly reason: SummaryErrorReason,
+    message: string,
+    public readonly details: {
+      url?: string;
+      // Provider-specific status, e.g. an HTTP status or URL_RETRIEVAL_STATUS_PAYWALL
+      status?: string | number;
+      retryAfterSeconds?: number;
+    } = {}
+  ) {
+    super(message);
+    this.name = "SummaryError";
+  }
+}
+
+export function isRetryable(error: unknown): boolean {
+  if (!(error instanceof SummaryError) || !RETRYABLE_REASONS.includes(error.reason)) {
+    return false;
+  }
+  return (error.details.retryAfterSeconds ?? 0) <= MAX_RETRY_AFTER_SECONDS;
+}
+
+export function describeSummaryError(reason: SummaryErrorReason): string {
+  switch (reason) {
+    case "fetch_blocked":
+      return "ページを取得できませんでした（ログインが必要、またはボットがブロックされている可能性があります）";
+    case "paywalled":
+      return "有料記事のため取得できませんでした";
+    case "timeout":
+      return "要約に時間がかかりすぎたため中断しました。時間をおいてもう一度お試しください";
+    case "quota_exceeded":
+      return "AIの利用上限に達しました。しばらくしてからもう一度お試しください";
+    case "safety_blocked":
+      return "安全性の判定によりAIが応答を控えました";
+    case "empty_response":
+      return "AIから応答がありませんでした。もう一度お試しください";
+    case "upstream_error":
+      return "AIサービスが一時的に利用できません。時間をおいてもう一度お試しください";
+  }
+}
+
+// Runs fn again after a retryable SummaryError; anything else is thrown right away
+export async function withRetry<T>(label: string, fn: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS || !isRetryable(error)) {
+        throw error;
+      }
+
+      const { reason, details } = error as SummaryError;
+      const backoff = Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+      const delay = Math.max(backoff, (details.retryAfterSeconds ?? 0) * 1000);
+
+      console.warn(`${label} failed (${reason}), retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${MAX_ATTEMPTS})`);
+      await sleep(delay);
+    }
+  }
+}
+
+// HTTP failures from a provider API: 429 and 5xx are worth retrying, other statuses are not
+export function providerHttpError(
+  provider: string,
+  status: number,
+  body: string,
+  retryAfter: string | null
+): Error {
+  const message = `${provider} API error: ${status} - ${body}`;
+
+  if (status === 429) {
+    // Gemini puts the delay in the body's RetryInfo ("retryDelay": "37s") instead of a header
+    const retryDelay = body.match(/"retryDelay":\s*"(\d+)(?:\.\d+)?s"/)?.[1];
+    const retryAfterSeconds = parseInt(retryAfter ?? retryDelay ?? "", 10);
+    return new SummaryError("quota_exceeded", message, {
+      status,
+      retryAfterSeconds: Number.isNaN(retryAfterSeconds) ? undefined : retryAfterSeconds
+    });
+  }
+  if (status >= 500) {
+    return new SummaryError("upstream_error", message, { status });
+  }
+  return new Error(message);
+}
+
+// fetch() rejections: timeouts from AbortSignal.timeout, everything else is a network failure
+export function providerFetchError(provider: string, error: unknown): SummaryError {
+  if (error instanceof DOMException && (error.name === "TimeoutError" || error.name === "AbortError")) {
+    return new SummaryError("timeout", `${provider} API request timed out`);
+  }
+  return new SummaryError("upstream_error", `${provider} API request failed: ${error instanceof Error ? error.message : String(error)}`);
+}
@@ -1,96 +1,262 @@
-import { SlackEvent } from "./types";
+import { Env, SlackEvent } from "./types";
 
 const SLACK_URL_RE = /<(https?:\/\/[^>|]+)(?:\|[^>]+)?>/g;
 const PLAIN_URL_RE = /\bhttps?:\/\/[^\s<>)+"]+/g;
 
-export function extractUrlsFromSlackText(text: string, max = 20): string[] {
-  const set = new Set<string>();
+// Redirect wrappers that carry the real destination in a query parameter
+const REDIRECTORS: Array<{ host: RegExp; path?: RegExp; params: string[] }> = [
+  // Google search result redirects
+  { host: /^(www\.)?google\.[a-z.]+$/, path: /^\/url$/, params: ["url", "q"] },
+  // Outlook / Microsoft Defender SafeLinks
+  { host: /(^|\.)safelinks\.protection\.outlook\.com$/, params: ["url"] },
+  // Facebook and Messenger outbound links
+  { host: /^(l|lm|m)\.facebook\.com$/, path: /^\/l\.php$/, params: ["u"] },
+  { host: /^l\.messenger\.com$/, path: /^\/l\.php$/, params: ["u"] },
+  // LinkedIn outbound links
+  { host: /^(www\.)?linkedin\.com$/, path: /^\/(redir\/redirect|safety\/go)\/?$/, params: ["url"] },
+  // Slack's own redirector
+  { host: /^slack-redir\.net$/, path: /^\/link$/, params: ["url"] },
+];
+
+// Shorteners only reveal the destination through an HTTP redirect (see expandShortUrls)
+const SHORTENER_HOSTS = new Set(["t.co", "lnkd.in", "bit.ly", "buff.ly", "ow.ly", "tinyurl.com"]);
+
+const TRACKING_PARAMS = new Set([
+  "fbclid", "gclid", "dclid", "gbraid", "wbraid", "msclkid", "yclid", "twclid", "ttclid",
+  "igshid", "mc_cid", "mc_eid", "_hsenc", "_hsmi", "mkt_tok", "ref_src", "ref_url",
+  "spm", "si", "s_cid", "vero_id", "oly_anon_id", "oly_enc_id", "rb_clickid", "__s",
+]);
+
+// Slack's file and CDN hosts, and message/file permalinks on slack.com. Other slack.com
+// pages (api.slack.com docs, the blog) are ordinary links.
+const SLACK_FILE_HOST_RE = /(^|\.)(slack-edge\.com|slack-files\.com|slack-imgs\.com)$|^files\.slack\.com$/;
+const SLACK_HOST_RE = /(^|\.)slack\.com$/;
+const SLACK_PERMALINK_PATH_RE = /^\/(archives|files)\//;
+
+const MEDIA_EXTENSION_RE = /\.(png|jpe?g|gif|webp|svg|bmp|ico|tiff?|heic|avif|mp4|m4v|mov|webm|avi|mkv|mp3|m4a|wav|ogg|flac|aac)$/i;
+
+const MAX_UNWRAP_DEPTH = 5;
+
+export interface UrlFilterOptions {
+  // Additional hosts to ignore, e.g. the bot's own links
+  ignoreHosts?: string[];
+}
+
+export function getUrlFilterOptions(env: Env): UrlFilterOptions {
+  return { ignoreHosts: parseHostList(env.IGNORE_URL_HOSTS) };
+}
+
+// The app's registered unfurl domains; Slack sends link_shared for these and their subdomains
+export function getUnfurlDomains(env: Env): string[] {
+  return parseHostList(env.UNFURL_DOMAINS);
+}
+
+// True when the URL's host is one of the hosts or a subdomain of one
+export function matchesHost(url: string, hosts: string[]): boolean {
+  let host: string;
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    return false;
+  }
+  return hosts.some(candidate => host === candidate || host.endsWith(`.${candidate}`));
+}
+
+function parseHostList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function extractUrlsFromSlackText(
+  text: string,
+  max = 20,
+  options: UrlFilterOptions = {}
+): string[] {
+  const candidates: string[] = [];
   let m: RegExpExecArray | null;
-  
+
   SLACK_URL_RE.lastIndex = 0;
-  while ((m = SLACK_URL_RE.exec(text)) && set.size < max) {
-    let url = m[1];
-    
-    // Handle Google redirect URLs
-    if (url.startsWith("https://www.google.com/url?")) {
-      const parsed = new URL(url);
-      const redirectedUrl = parsed.searchParams.get("url");
-      if (redirectedUrl) {
-        url = redirectedUrl;
-      }
-    }
-    
-    set.add(url);
+  while ((m = SLACK_URL_RE.exec(text))) {
+    candidates.push(m[1]);
+  }
+
+  // Remove Slack-formatted links first so their URLs are not matched twice
+  const plainText = text.replace(SLACK_URL_RE, " ");
+  candidates.push(...(plainText.match(PLAIN_URL_RE) ?? []));
+
+  return collectUrls(candidates, max, options);
+}
+
+export function extractUrlsFromSlackEvent(
+  event: SlackEvent,
+  max = 20,
+  options: UrlFilterOptions = {}
+): string[] {
+  const candidates: string[] = [];
+
+  // Extract from text
+  if (event.text) {
+    candidates.push(...extractUrlsFromSlackText(event.text, max, options));
   }
-  
-  const plains = text.match(PLAIN_URL_RE) ?? [];
-  for (const u of plains) {
-    if (set.size >= max) break;
-    
-    let url = u;
-    // Handle Google redirect URLs for plain URLs too
-    if (url.startsWith("https://www.google.com/url?")) {
-      try {
-        const parsed = new URL(url);
-        const redirectedUrl = parsed.searchParams.get("url");
-        if (redirectedUrl) {
-          url = redirectedUrl;
+
+  // Extract from blocks (for rich formatted messages)
+  for (const block of event.blocks ?? []) {
+    for (const element of block.elements ?? []) {
+      for (const item of element.elements ?? []) {
+        if (item.type === "link" && item.url) {
+          candidates.push(item.url);
         }
-      } catch {
-        // If URL parsing fails, use original
       }
     }
-    
-    set.add(url);
   }
-  
-  return Array.from(set);
+
+  return collectUrls(candidates, max, options);
 }
 
-export function extractUrlsFromSlackEvent(event: SlackEvent, max = 20): string[] {
+// Normalizes, filters and de-duplicates candidate URLs, keeping their original order
+export function collectUrls(candidates: string[], max: number, options: UrlFilterOptions): string[] {
   const urls = new Set<string>();
-  
-  // Extract from text
-  if (event.text) {
-    const textUrls = extractUrlsFromSlackText(event.text, max);
-    for (const url of textUrls) {
+
+  for (const candidate of candidates) {
+    if (urls.size >= max) break;
+
+    const url = normalizeUrl(candidate);
+    if (shouldSummarizeUrl(url, options)) {
       urls.add(url);
-      if (urls.size >= max) return Array.from(urls);
     }
   }
-  
-  // Extract from blocks (for rich formatted messages)
-  if (event.blocks) {
-    for (const block of event.blocks) {
-      if (block.elements) {
-        for (const element of block.elements) {
-          if (element.elements) {
-            for (const item of element.elements) {
-              if (item.type === "link" && item.url) {
-                let url = item.url;
-                
-                // Handle Google redirect URLs
-                if (url.startsWith("https://www.google.com/url?")) {
-                  try {
-                    const parsed = new URL(url);
-                    const redirectedUrl = parsed.searchParams.get("url");
-                    if (redirectedUrl) {
-                      url = redirectedUrl;
-                    }
-                  } catch {
-                    // If URL parsing fails, use original
-                  }
-                }
-                
-                urls.add(url);
-                if (urls.size >= max) return Array.from(urls);
-              }
-            }
-          }
-        }
+
+  return Array.from(urls);
+}
+
+// Canonical form used to compare URLs and build cache keys:
+// unwraps redirectors, strips tracking parameters and canonicalizes host and path
+export function normalizeUrl(rawUrl: string): string {
+  // Slack escapes "&" in message text
+  let url = rawUrl.trim().replace(/&amp;/g, "&");
+
+  try {
+    for (let depth = 0; depth < MAX_UNWRAP_DEPTH; depth++) {
+      const unwrapped = unwrapRedirector(new URL(url));
+      if (!unwrapped) break;
+      url = unwrapped;
+    }
+
+    const parsed = new URL(url);
+    parsed.hash = "";
+    parsed.hostname = parsed.hostname.toLowerCase().replace(/\.$/, "");
+
+    for (const key of Array.from(parsed.searchParams.keys())) {
+      if (isTrackingParam(key)) {
+        parsed.searchParams.delete(key);
       }
     }
+
+    // Drop trailing slashes so /post and /post/ are treated the same
+    if (parsed.pathname.length > 1) {
+      parsed.pathname = parsed.pathname.replace(/\/+$/, "") || "/";
+    }
+
+    // URL keeps a bare "?" when the last parameter is removed
+    return parsed.toString().replace(/\?$/, "");
+  } catch {
+    return url;
   }
-  
-  return Array.from(urls);
-}
\ No newline at end of file
+}
+
+function unwrapRedirector(url: URL): string | undefined {
+  const host = url.hostname.toLowerCase();
+
+  for (const redirector of REDIRECTORS) {
+    if (!redirector.host.test(host)) continue;
+    if (redirector.path && !redirector.path.test(url.pathname)) continue;
+
+    for (const param of redirector.params) {
+      const target = url.searchParams.get(param);
+      if (target && /^https?:\/\//i.test(target)) {
+        return target;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function isTrackingParam(key: string): boolean {
+  const lower = key.toLowerCase();
+  return lower.startsWith("utm_") || TRACKING_PARAMS.has(lower);
+}
+
+// Filters out links that should never be summarized
+export function shouldSummarizeUrl(url: string, options: UrlFilterOptions = {}): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  // mailto:, tel:, slack:// and friends
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return false;
+  }
+
+  const host = parsed.hostname;
+
+  // Slack permalinks and file links point back into the workspace
+  if (SLACK_FILE_HOST_RE.test(host) || (SLACK_HOST_RE.test(host) && SLACK_PERMALINK_PATH_RE.test(parsed.pathname))) {
+    return false;
+  }
+
+  if (MEDIA_EXTENSION_RE.test(parsed.pathname)) {
+    return false;
+  }
+
+  if (matchesHost(url, (options.ignoreHosts ?? []).map(h => h.toLowerCase()))) {
+    return false;
+  }
+
+  return true;
+}
+
+// Resolves URL shorteners (t.co, lnkd.in, ...) by reading their redirect target
+export async function expandShortUrls(
+  urls: string[],
+  options: UrlFilterOptions = {}
+): Promise<string[]> {
+  const expanded = await Promise.all(urls.map(expandShortUrl));
+  return collectUrls(expanded, urls.length, options);
+}
+
+async function expandShortUrl(url: string): Promise<string> {
+  let current = url;
+
+  for (let depth = 0; depth < MAX_UNWRAP_DEPTH; depth++) {
+    let host: string;
+    try {
+      host = new URL(current).hostname;
+    } catch {
+      return current;
+    }
+    if (!SHORTENER_HOSTS.has(host)) break;
+
+    try {
+      const response = await fetch(current, {
+        method: "HEAD",
+        redirect: "manual",
+        signal: AbortSignal.timeout(3000),
+      });
+      const location = response.headers.get("location");
+      if (!location) break;
+
+      current = normalizeUrl(new URL(location, current).toString());
+    } catch (error) {
+      console.warn(`Failed to expand short URL ${current}:`, error);
+      break;
+    }
+  }
+
+  return current;
+}
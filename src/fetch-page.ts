@@ -0,0 +1,220 @@
+// Direct page fetching used when Gemini URLContext cannot retrieve a page, and for PDFs sent to the model
+
+import { evaluateUrlPolicy, UrlPolicy } from "./policy";
+
+const USER_AGENT = "Mozilla/5.0 (compatible; WebpageSummarizerBot/2.0; +https://github.com/Saqoosha/webpage-summarizer-bot)";
+
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_REDIRECTS = 5;
+
+const SUPPORTED_CONTENT_TYPES = ["text/html", "application/xhtml+xml", "text/plain"];
+
+export interface FetchPageOptions {
+  maxBytes?: number;
+  timeoutMs?: number;
+  maxRedirects?: number;
+  // Checked on every redirect, so a public link cannot bounce the fetch to a private host
+  policy?: UrlPolicy;
+}
+
+export interface FetchedPage {
+  // URL after following redirects
+  url: string;
+  contentType: string;
+  body: string;
+  truncated: boolean;
+}
+
+export class PageFetchError extends Error {
+  constructor(
+    public readonly url: string,
+    public readonly reason: "http_error" | "unsupported_type" | "too_large" | "too_many_redirects" | "blocked_redirect" | "timeout" | "network",
+    message: string,
+    public readonly status?: number,
+    // Set for unsupported_type, so callers can route e.g. PDFs to another handler
+    public readonly contentType?: string
+  ) {
+    super(message);
+    this.name = "PageFetchError";
+  }
+}
+
+export async function fetchPage(
+  url: string,
+  options: FetchPageOptions = {}
+): Promise<FetchedPage> {
+  const { maxBytes = DEFAULT_MAX_BYTES } = options;
+
+  return withFetchErrors(url, options, async signal => {
+    const { response, finalUrl } = await openUrl(url, "text/html,application/xhtml+xml;q=0.9,text/plain;q=0.8", signal, options);
+
+    const contentType = response.headers.get("content-type") ?? "";
+    const mimeType = contentType.split(";")[0].trim().toLowerCase();
+    if (!SUPPORTED_CONTENT_TYPES.includes(mimeType)) {
+      await response.body?.cancel();
+      throw new PageFetchError(url, "unsupported_type", `Unsupported content type "${mimeType}" for ${finalUrl}`, undefined, mimeType);
+    }
+
+    const { bytes, truncated } = await readLimited(response, maxBytes);
+    const body = decodeBody(bytes, contentType);
+
+    console.log(`Fetched ${finalUrl} (${bytes.byteLength} bytes${truncated ? ", truncated" : ""})`);
+
+    return { url: finalUrl, contentType: mimeType, body, truncated };
+  });
+}
+
+// Downloads a PDF whole; unlike pages, a truncated PDF cannot be read, so oversized ones fail
+export async function fetchPdf(
+  url: string,
+  options: FetchPageOptions = {}
+): Promise<{ url: string; bytes: Uint8Array }> {
+  const { maxBytes = DEFAULT_MAX_BYTES } = options;
+
+  return withFetchErrors(url, options, async signal => {
+    const { response, finalUrl } = await openUrl(url, "application/pdf", signal, options);
+
+    const mimeType = (response.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+    // Some servers send PDFs as application/octet-stream
+    if (mimeType !== "application/pdf" && mimeType !== "application/octet-stream") {
+      await response.body?.cancel();
+      throw new PageFetchError(url, "unsupported_type", `Expected a PDF but got "${mimeType}" for ${finalUrl}`, undefined, mimeType);
+    }
+
+    const { bytes, truncated } = await readLimited(response, maxBytes);
+    if (truncated) {
+      throw new PageFetchError(url, "too_large", `PDF at ${finalUrl} is larger than ${maxBytes} bytes`);
+    }
+
+    console.log(`Fetched PDF ${finalUrl} (${bytes.byteLength} bytes)`);
+
+    return { url: finalUrl, bytes };
+  });
+}
+
+// Applies the timeout and turns anything unexpected into a PageFetchError
+async function withFetchErrors<T>(
+  url: string,
+  options: FetchPageOptions,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await run(controller.signal);
+  } catch (error) {
+    if (error instanceof PageFetchError) {
+      throw error;
+    }
+    if (controller.signal.aborted) {
+      throw new PageFetchError(url, "timeout", `Timed out fetching ${url}`);
+    }
+    throw new PageFetchError(url, "network", `Failed to fetch ${url}: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function openUrl(
+  url: string,
+  accept: string,
+  signal: AbortSignal,
+  options: FetchPageOptions
+): Promise<{ response: Response; finalUrl: string }> {
+  const { maxRedirects = DEFAULT_MAX_REDIRECTS, policy } = options;
+  let currentUrl = url;
+
+  // Follow redirects by hand so the hop count is bounded
+  for (let hop = 0; hop <= maxRedirects; hop++) {
+    const response = await fetch(currentUrl, {
+      method: "GET",
+      redirect: "manual",
+      signal,
+      headers: {
+        "User-Agent": USER_AGENT,
+        "Accept": accept,
+        "Accept-Language": "ja,en;q=0.8",
+      },
+    });
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      const nextUrl = new URL(location, currentUrl).toString();
+      const decision = policy ? evaluateUrlPolicy(nextUrl, policy) : undefined;
+      if (decision?.action === "block") {
+        await response.body?.cancel();
+        throw new PageFetchError(url, "blocked_redirect", `Redirect from ${currentUrl} blocked by the URL policy (${decision.reason})`);
+      }
+      currentUrl = nextUrl;
+      continue;
+    }
+
+    if (!response.ok) {
+      throw new PageFetchError(url, "http_error", `HTTP ${response.status} for ${currentUrl}`, response.status);
+    }
+
+    return { response, finalUrl: currentUrl };
+  }
+
+  throw new PageFetchError(url, "too_many_redirects", `Too many redirects for ${url}`);
+}
+
+// Reads at most maxBytes; the rest of an oversized page is discarded
+export async function readLimited(
+  response: Response,
+  maxBytes: number
+): Promise<{ bytes: Uint8Array; truncated: boolean }> {
+  if (!response.body) {
+    return { bytes: new Uint8Array(), truncated: false };
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  let truncated = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    if (total + value.byteLength > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - total));
+      total = maxBytes;
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+
+    chunks.push(value);
+    total += value.byteLength;
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  return { bytes, truncated };
+}
+
+function decodeBody(bytes: Uint8Array, contentType: string): string {
+  // Prefer the header charset, then a <meta charset> in the first few KB
+  let charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1];
+  if (!charset) {
+    const head = new TextDecoder("utf-8").decode(bytes.subarray(0, 4096));
+    charset = head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1];
+  }
+
+  try {
+    return new TextDecoder(charset || "utf-8").decode(bytes);
+  } catch {
+    console.warn(`Unsupported charset "${charset}", decoding as UTF-8`);
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
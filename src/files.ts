@@ -0,0 +1,165 @@
+import { slackGetFileInfo } from "./slack";
+import { extractArticle, MAX_TEXT_LENGTH } from "./readability";
+import { readLimited } from "./fetch-page";
+import { DOCX_MIME_TYPE, extractDocxText, extractPptxText, PPTX_MIME_TYPE } from "./office";
+import type { Env, FileInput, PageContent, SlackFile } from "./types";
+
+// Gemini's inline_data requests are capped at 20 MB, and base64 adds a third
+const DEFAULT_MAX_FILE_BYTES = 10 * 1024 * 1024;
+const MAX_FILES_PER_MESSAGE = 5;
+
+// Sent to the model as-is; only providers with summarizeFile can read them
+const INLINE_MIME_TYPES = ["application/pdf"];
+// Converted to text, so every provider can summarize them
+const TEXT_MIME_TYPES = ["application/json", "application/xml", DOCX_MIME_TYPE, PPTX_MIME_TYPE];
+
+// Slack sometimes reports a generic mimetype, so the filetype is checked too
+const FILETYPE_MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  docx: DOCX_MIME_TYPE,
+  pptx: PPTX_MIME_TYPE,
+  text: "text/plain",
+  markdown: "text/markdown",
+  csv: "text/csv",
+  html: "text/html",
+};
+
+export type FileContent =
+  | { kind: "inline"; file: FileInput }
+  | { kind: "text"; page: PageContent };
+
+export class SlackFileError extends Error {
+  constructor(
+    public readonly fileId: string,
+    public readonly reason: "too_large" | "unsupported_type" | "download_failed" | "unsupported_provider" | "no_text",
+    message: string
+  ) {
+    super(message);
+    this.name = "SlackFileError";
+  }
+}
+
+export function getMaxFileBytes(env: Env): number {
+  return parseInt(env.SLACK_FILE_MAX_BYTES ?? "", 10) || DEFAULT_MAX_FILE_BYTES;
+}
+
+// Uploads the bot can summarize; screenshots, videos and external files are left alone
+export function selectSlackFiles(files: SlackFile[] = []): SlackFile[] {
+  const selected = files.filter(file => {
+    if (file.mode === "external" || file.mode === "tombstone") {
+      console.log(`Skipping ${file.mode} file ${file.id}`);
+      return false;
+    }
+    if (!isSupportedMimeType(fileMimeType(file))) {
+      console.log(`Skipping file ${file.id} of type ${file.mimetype ?? file.filetype}`);
+      return false;
+    }
+    return true;
+  });
+
+  return selected.slice(0, MAX_FILES_PER_MESSAGE);
+}
+
+// Used as the file's URL in replies, the cache key and the archive
+export function fileUrl(file: SlackFile): string {
+  return file.permalink ?? file.url_private ?? `https://slack.com/files/${file.id}`;
+}
+
+export function fileLabel(file: SlackFile): string {
+  return file.title || file.name || file.id;
+}
+
+export async function loadSlackFile(token: string, file: SlackFile, maxBytes: number): Promise<FileContent> {
+  // Events can omit the download URL (file_access "check_file_info")
+  const details = file.url_private && file.file_access !== "check_file_info"
+    ? file
+    : { ...file, ...(await slackGetFileInfo(token, file.id)) };
+
+  const mimeType = fileMimeType(details);
+  if (!isSupportedMimeType(mimeType)) {
+    throw new SlackFileError(file.id, "unsupported_type", `Unsupported file type ${mimeType}`);
+  }
+  if ((details.size ?? 0) > maxBytes) {
+    throw new SlackFileError(file.id, "too_large", `File ${file.id} is ${details.size} bytes (limit ${maxBytes})`);
+  }
+
+  const downloadUrl = details.url_private_download ?? details.url_private;
+  if (!downloadUrl) {
+    throw new SlackFileError(file.id, "download_failed", `File ${file.id} has no download URL`);
+  }
+
+  const response = await fetch(downloadUrl, {
+    headers: { "Authorization": `Bearer ${token}` },
+  });
+  if (!response.ok) {
+    throw new SlackFileError(file.id, "download_failed", `HTTP ${response.status} downloading file ${file.id}`);
+  }
+
+  // Without the files:read scope Slack answers with its HTML sign-in page instead of the file
+  const contentType = (response.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+  if (contentType === "text/html" && mimeType !== "text/html") {
+    await response.body?.cancel();
+    throw new SlackFileError(file.id, "download_failed", `Got an HTML page instead of file ${file.id} (is files:read granted?)`);
+  }
+
+  // The file object's size can be missing, so the download itself is limited too
+  const contentLength = parseInt(response.headers.get("content-length") ?? "", 10);
+  if (contentLength > maxBytes) {
+    await response.body?.cancel();
+    throw new SlackFileError(file.id, "too_large", `File ${file.id} is ${contentLength} bytes (limit ${maxBytes})`);
+  }
+
+  const { bytes, truncated } = await readLimited(response, maxBytes);
+  if (truncated) {
+    throw new SlackFileError(file.id, "too_large", `File ${file.id} is larger than ${maxBytes} bytes`);
+  }
+
+  console.log(`Downloaded file ${file.id} (${mimeType}, ${bytes.byteLength} bytes)`);
+
+  const url = fileUrl(details);
+  const name = fileLabel(details);
+
+  if (INLINE_MIME_TYPES.includes(mimeType)) {
+    return { kind: "inline", file: { url, name, mimeType, data: toBase64(bytes) } };
+  }
+
+  const text = (await extractFileText(bytes, mimeType)).trim();
+  if (!text) {
+    throw new SlackFileError(file.id, "no_text", `No text found in file ${file.id}`);
+  }
+  // Same cap as extracted pages; a 10 MB text file would not fit the prompt anyway
+  return { kind: "text", page: { url, text: text.slice(0, MAX_TEXT_LENGTH), title: name } };
+}
+
+async function extractFileText(bytes: Uint8Array, mimeType: string): Promise<string> {
+  if (mimeType === DOCX_MIME_TYPE) {
+    return extractDocxText(bytes);
+  }
+  if (mimeType === PPTX_MIME_TYPE) {
+    return extractPptxText(bytes);
+  }
+
+  const text = new TextDecoder().decode(bytes);
+  return mimeType === "text/html" ? extractArticle(text).text : text;
+}
+
+function fileMimeType(file: SlackFile): string {
+  const mimeType = (file.mimetype ?? "").toLowerCase();
+  if (isSupportedMimeType(mimeType) && mimeType !== "text/plain") {
+    return mimeType;
+  }
+  return FILETYPE_MIME_TYPES[file.filetype ?? ""] ?? mimeType;
+}
+
+function isSupportedMimeType(mimeType: string): boolean {
+  return mimeType.startsWith("text/") || INLINE_MIME_TYPES.includes(mimeType) || TEXT_MIME_TYPES.includes(mimeType);
+}
+
+// btoa needs a binary string; building it in chunks keeps large files off the call stack limit
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.byteLength; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,155 @@
+import { extractUrlsFromSlackEvent, getUrlFilterOptions } from "./extract";
+import { slackGetThreadReplies } from "./slack";
+import { postMessageRateLimited } from "./rate-limiter";
+import { getReplyContext, ReplyContext } from "./replies";
+import { applyBudget, describeLimitReason, recordUsage } from "./usage";
+import { describeSummaryError, SummaryError } from "./errors";
+import type { ConversationTurn, SummarizationProvider } from "./provider";
+import type { Env, SlackEvent } from "./types";
+
+// Keeps the conversation sent to the model within a reasonable size
+const MAX_HISTORY_TURNS = 20;
+const MAX_TURN_TEXT = 2000;
+
+// Answers an app_mention inside a thread the bot has summarized.
+// Returns false when the thread has no summary (or the mention carries new links),
+// so the caller can fall back to normal summarization.
+export async function answerFollowUpQuestion(
+  event: SlackEvent,
+  env: Env,
+  provider: SummarizationProvider,
+  team?: string
+): Promise<boolean> {
+  const channel = event.channel;
+  const threadTs = event.thread_ts;
+  if (!channel || !threadTs || !event.ts) {
+    return false;
+  }
+
+  // A mention with links asks for those links to be summarized
+  if (extractUrlsFromSlackEvent(event, 1, getUrlFilterOptions(env)).length > 0) {
+    return false;
+  }
+
+  const messages = await slackGetThreadReplies(env.SLACK_BOT_TOKEN, channel, threadTs);
+
+  // Our summaries are the bot messages that still have a stored reply context
+  const summaries: Array<{ message: any; context: ReplyContext }> = [];
+  for (const message of messages) {
+    if (!message.bot_id || message.ts === event.ts) continue;
+    const context = await getReplyContext(env.DEDUP, channel, message.ts);
+    if (context) {
+      summaries.push({ message, context });
+    }
+  }
+
+  if (summaries.length === 0) {
+    return false;
+  }
+
+  const question = stripMentions(event.text ?? "");
+  if (!question) {
+    await postMessageRateLimited(env, {
+      channel,
+      text: "💬 このスレッドのページについて質問があれば、メンションと一緒に質問を書いてください。",
+      thread_ts: threadTs
+    });
+    return true;
+  }
+
+  const scope = { team, channel, user: event.user };
+  const budget = await applyBudget(env, provider, scope);
+  if (budget.blocked) {
+    await postMessageRateLimited(env, {
+      channel,
+      text: `⚠️ ${describeLimitReason(budget.blocked)}。`,
+      thread_ts: threadTs
+    });
+    return true;
+  }
+  provider = budget.provider;
+
+  if (!provider.answerQuestion) {
+    await postMessageRateLimited(env, {
+      channel,
+      text: `⚠️ 現在の要約プロバイダ（${provider.name}）は質問への回答に対応していません。`,
+      thread_ts: threadTs
+    });
+    return true;
+  }
+
+  const botId = summaries[0].message.bot_id;
+  const summaryTs = new Set(summaries.map(summary => summary.message.ts));
+  const urls = Array.from(new Set(summaries.flatMap(summary => summary.context.urls)));
+  const latest = summaries[summaries.length - 1].context;
+
+  // Uploaded files cannot be re-read through url_context, so only link summaries take questions
+  if (urls.length === 0) {
+    await postMessageRateLimited(env, {
+      channel,
+      text: "⚠️ アップロードされたファイルの要約への質問にはまだ対応していません。",
+      thread_ts: threadTs
+    });
+    return true;
+  }
+
+  // Everything after the first summary, up to the question, is the conversation so far
+  const history: ConversationTurn[] = messages
+    .filter(message =>
+      message.ts > summaries[0].message.ts &&
+      message.ts < event.ts! &&
+      !summaryTs.has(message.ts) &&
+      message.text
+    )
+    .map(message => ({
+      role: message.bot_id === botId ? "assistant" as const : "user" as const,
+      text: truncate(stripMentions(message.text), MAX_TURN_TEXT)
+    }))
+    .filter(turn => turn.text)
+    .slice(-MAX_HISTORY_TURNS);
+
+  console.log(`Answering follow-up in ${channel}:${threadTs} about ${urls.length} URLs with ${history.length} earlier turns`);
+
+  let answer;
+  try {
+    answer = await provider.answerQuestion({
+      urls,
+      summary: summaries.map(summary => summary.message.text ?? "").join("\n\n"),
+      history,
+      question,
+      language: latest.language
+    });
+  } catch (error) {
+    // Known failures get an explanation; anything else goes back to the queue for a retry
+    if (!(error instanceof SummaryError)) {
+      throw error;
+    }
+    await postMessageRateLimited(env, {
+      channel,
+      text: `⚠️ 質問に回答できませんでした: ${describeSummaryError(error.reason)}。`,
+      thread_ts: threadTs
+    });
+    return true;
+  }
+
+  if (answer.usage) {
+    await recordUsage(env, scope, [{ model: provider.model, usage: answer.usage }]);
+  }
+
+  await postMessageRateLimited(env, {
+    channel,
+    text: answer.text,
+    thread_ts: threadTs
+  });
+
+  console.log(`Posted follow-up answer to ${channel}:${threadTs}`);
+  return true;
+}
+
+function stripMentions(text: string): string {
+  return text.replace(/<@[A-Z0-9]+(\|[^>]*)?>/g, "").trim();
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+}
@@ -1,170 +1,391 @@
-// No imports needed - using REST API directly
+import { buildQuestionPrompt, buildSummaryPrompt, cleanupForSlack } from "./prompt";
+import { formatStructuredSummary, parseStructuredSummary } from "./structured";
+import type { FileInput, PageContent, SummaryResult, SummaryStyle, TokenUsage } from "./types";
+import { providerFetchError, providerHttpError, SummaryError, withRetry } from "./errors";
+import type { ConversationTurn, QuestionAnswer, QuestionRequest, SummarizationProvider } from "./provider";
+import type { MediaKind } from "./media";
+
+const DEFAULT_BASE_URL = "https://generativelanguage.googleapis.com";
+
+const REQUEST_TIMEOUT_MS = 60000;
+// Gemini has to watch the whole video before it answers
+const VIDEO_TIMEOUT_MS = 180000;
+
+// finishReason values that mean the answer was withheld
+const BLOCKED_FINISH_REASONS = ["SAFETY", "PROHIBITED_CONTENT", "BLOCKLIST", "SPII", "RECITATION", "IMAGE_SAFETY"];
 
 export interface GeminiOptions {
   apiKey: string;
   baseUrl?: string;
   model?: string;
-}
-
-export interface SummaryResult {
-  summary: string;
-  translatedBody?: string;
   language?: string;
-  metadata?: any;
+  style?: SummaryStyle;
+  media?: MediaKind;
 }
 
-// Structured output schema removed - using raw text output with Slack markdown formatting
+export function createGeminiProvider(
+  config: Pick<GeminiOptions, "apiKey" | "baseUrl" | "model">
+): SummarizationProvider {
+  const model = config.model || "gemini-2.5-flash";
+
+  return {
+    name: "gemini",
+    model,
+    summarizeUrl: (url, request) => summarizeUrlWithGemini(url, { ...config, model, ...request }),
+    summarizeContent: (page, request) => summarizeContentWithGemini(page, { ...config, model, ...request }),
+    summarizeFile: (file, request) => summarizeFileWithGemini(file, { ...config, model, ...request }),
+    summarizeVideo: (url, request) => summarizeVideoWithGemini(url, { ...config, model, ...request }),
+    answerQuestion: (request) => answerQuestionWithGemini(request, { ...config, model, language: request.language }),
+  };
+}
 
-export async function summarizeUrlsWithGemini(
-  urls: string[],
+export async function summarizeUrlWithGemini(
+  url: string,
   options: GeminiOptions
 ): Promise<SummaryResult> {
-  const { apiKey, model = "gemini-2.5-flash" } = options;
-
-  if (!urls || urls.length === 0) {
-    throw new Error("No URLs provided for summarization");
-  }
-
-  // Include URLs directly in the prompt
-  const prompt = `以下のWebページを読んで、日本語で要約してください:
-${urls.join('\n')}
-
-【出力形式】
-Slackに投稿するマークダウン形式で出力してください：
-
-*要約*
-• 重要ポイント1をここに書く
-• 重要ポイント2をここに書く
-• 重要ポイント3をここに書く
-（3〜6個の箇条書き）
-
-【Slack公式マークダウン仕様】
-以下の形式のみ使用可能です：
-- *太字* → シングルアスタリスク（例: *重要*）
-- _斜体_ → アンダースコア（例: _注釈_）
-- ~取り消し線~ → チルダ（例: ~削除~）
-- \`コード\` → バッククォート（例: \`npm install\`）
-- 箇条書き → • （U+2022）で開始
-- 引用 → > で開始
-
-【使用禁止】
-- **text** → ダブルアスタリスクは使わない
-- 番号付きリスト → Slackは1. 2. 3.をサポートしない
-- # 見出し → Slackはマークダウン見出しをサポートしない
-- [リンク](URL) → この形式は使わない、URLは直接記載
-
-【重要な注意点】
-- 日本語（ひらがな、カタカナ、漢字）とマークダウンの間には必ず半角スペースを入れる
-- マークダウンの前後両方にスペースが必要：
-  * 太字: これは *重要* です（正しい）、これは*重要*です（間違い）
-  * コード: 設定で \`tsconfig.json\` を編集（正しい）、設定で\`tsconfig.json\`を編集（間違い）
-  * 斜体: ここは _注意_ が必要（正しい）、ここは_注意_が必要（間違い）
-  * 取り消し線: この機能は ~廃止~ されました（正しい）、この機能は~廃止~されました（間違い）
-- 句読点（、。）の扱い：
-  * マークダウンの前に句読点がある場合: 移行する際、 \`tsconfig.json\` のパス（正しい）
-  * マークダウンの後に句読点がある場合: *重要* 、2位に（正しい）、*重要*、2位に（間違い）
-  * つまり: 句読点とマークダウンの間には必ずスペースを入れる
-- マークダウンの内側にスペースを入れない（*重要* は正しい、* 重要 * は間違い）
-
-必ず日本語で、上記のSlack仕様に従って出力してください。`;
+  const { apiKey, baseUrl, model = "gemini-2.5-flash", language = "ja", style = "standard" } = options;
 
-  try {
-    console.log(`Using model: ${model}`);
-    // Use REST API directly with url_context tool
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-      {
-        method: "POST",
-        headers: { "Content-Type": "application/json; charset=utf-8" },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{ text: prompt }]
-          }],
-          tools: [{ url_context: {} }],  // Enable URLContext tool
-          generationConfig: {
-            temperature: 0.7,
-            topK: 40,
-            topP: 0.95,
-            maxOutputTokens: 2048
-            // NOTE: Cannot use responseMimeType with url_context tool
-          }
-        })
-      }
-    );
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Gemini API error: ${response.status} - ${error}`);
-    }
+  if (!url) {
+    throw new Error("No URL provided for summarization");
+  }
 
-    const data = await response.json() as any;
+  const prompt = buildSummaryPrompt(url, language, style);
 
-    // Extract the text from the response
-    const text = data.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  try {
+    console.log(`Using model: ${model} for ${url}`);
+    const { data, text, parsed: structured } = await requestGemini(prompt, {
+      apiKey, baseUrl, model, useUrlContext: true,
+      // Retrieval failures are read from the metadata before the text is looked at
+      checkResponse: data => checkUrlRetrieval(url, data),
+      parse: parseStructuredSummary
+    });
 
     // Log raw response for debugging
     console.log("=== RAW GEMINI RESPONSE ===");
     console.log(text);
     console.log("=== END RAW RESPONSE ===");
 
-    // Check if response is in English (error message)
-    if (text.toLowerCase().includes("could not be fetched") ||
-        text.toLowerCase().includes("unable to access") ||
-        text.toLowerCase().includes("apologize") ||
-        text.toLowerCase().includes("cannot summarize")) {
-      throw new Error("URLContext could not fetch the provided URL");
-    }
+    return {
+      summary: formatStructuredSummary(structured),
+      structured,
+      language,
+      url,
+      title: structured.title,
+      source: "url_context",
+      provider: "gemini",
+      model,
+      usage: parseGeminiUsage(data)
+    };
+  } catch (error) {
+    console.error("Error calling Gemini API:", error);
+    throw wrapError("Failed to summarize URL", error);
+  }
+}
 
-    // Check for URLContext metadata and errors
-    const urlMetadata = data.candidates?.[0]?.urlContextMetadata || data.candidates?.[0]?.url_context_metadata;
+// Summarizes text we extracted ourselves, for pages URLContext could not fetch
+export async function summarizeContentWithGemini(
+  page: PageContent,
+  options: GeminiOptions
+): Promise<SummaryResult> {
+  const { apiKey, baseUrl, model = "gemini-2.5-flash", language = "ja", style = "standard", media } = options;
 
-    if (urlMetadata) {
-      console.log("URLContext Metadata:", JSON.stringify(urlMetadata, null, 2));
+  const prompt = buildSummaryPrompt(page, language, style, media);
 
-      // Check if any URLs failed to fetch
-      if (urlMetadata.failedUrls && urlMetadata.failedUrls.length > 0) {
-        console.warn("Failed to fetch URLs:", urlMetadata.failedUrls);
+  try {
+    console.log(`Using model: ${model} for extracted content of ${page.url} (${page.text.length} chars)`);
+    const { data, parsed: structured } = await requestGemini(prompt, { apiKey, baseUrl, model, useUrlContext: false, json: true, parse: parseStructuredSummary });
 
-        // If all URLs failed, throw a specific error
-        if (urlMetadata.failedUrls.length === urls.length) {
-          throw new Error("URLContext could not fetch any of the provided URLs. The pages may be protected or inaccessible.");
-        }
-      }
-    } else {
-      console.log("WARNING: No URLContext metadata found in response!");
-    }
+    return {
+      summary: formatStructuredSummary(structured),
+      structured,
+      language,
+      url: page.url,
+      title: page.title ?? structured.title,
+      source: "fetched",
+      provider: "gemini",
+      model,
+      usage: parseGeminiUsage(data)
+    };
+  } catch (error) {
+    console.error("Error calling Gemini API:", error);
+    throw wrapError("Failed to summarize extracted content", error);
+  }
+}
+
+// Sends an uploaded file (e.g. a PDF) as inline_data next to the prompt
+export async function summarizeFileWithGemini(
+  file: FileInput,
+  options: GeminiOptions
+): Promise<SummaryResult> {
+  const { apiKey, baseUrl, model = "gemini-2.5-flash", language = "ja", style = "standard", media } = options;
 
-    // Clean up the response text for Slack
-    let summary = text;
+  const contents: GeminiContent[] = [{
+    role: "user",
+    parts: [
+      { inline_data: { mime_type: file.mimeType, data: file.data } },
+      { text: buildSummaryPrompt(file, language, style, media) }
+    ]
+  }];
+
+  try {
+    console.log(`Using model: ${model} for file ${file.name} (${file.mimeType})`);
+    const { data, parsed: structured } = await requestGemini(contents, { apiKey, baseUrl, model, useUrlContext: false, json: true, parse: parseStructuredSummary });
+
+    return {
+      summary: formatStructuredSummary(structured),
+      structured,
+      language,
+      url: file.url,
+      title: structured.title ?? file.name,
+      source: "file",
+      provider: "gemini",
+      model,
+      usage: parseGeminiUsage(data)
+    };
+  } catch (error) {
+    console.error("Error calling Gemini API:", error);
+    throw wrapError("Failed to summarize file", error);
+  }
+}
 
-    // Convert double asterisks to single for Slack (if Gemini uses them)
-    summary = summary.replace(/\*\*([^*]+)\*\*/g, '*$1*');
+// Sends a YouTube URL as file_data so Gemini watches the video instead of reading its page
+export async function summarizeVideoWithGemini(
+  url: string,
+  options: GeminiOptions
+): Promise<SummaryResult> {
+  const { apiKey, baseUrl, model = "gemini-2.5-flash", language = "ja", style = "standard" } = options;
 
-    // Remove any markdown code block markers if present
-    summary = summary.replace(/```[a-z]*\n?/g, '').replace(/```/g, '');
+  const contents: GeminiContent[] = [{
+    role: "user",
+    parts: [
+      { file_data: { file_uri: url } },
+      { text: buildSummaryPrompt(url, language, style, "video") }
+    ]
+  }];
 
-    // Add space after Japanese punctuation when followed by markdown
-    summary = summary.replace(/([、。！？」』】）])(`[^`]+`)/g, '$1 $2');
-    summary = summary.replace(/([、。！？」』】）])(\*[^*]+\*)/g, '$1 $2');
-    summary = summary.replace(/([、。！？」』】）])(_[^_]+_)/g, '$1 $2');
-    summary = summary.replace(/([、。！？」』】）])(~[^~]+~)/g, '$1 $2');
-    
-    // Add space before Japanese punctuation when preceded by markdown
-    summary = summary.replace(/(`[^`]+`)([、。！？「『【（])/g, '$1 $2');
-    summary = summary.replace(/(\*[^*]+\*)([、。！？「『【（])/g, '$1 $2');
-    summary = summary.replace(/(_[^_]+_)([、。！？「『【（])/g, '$1 $2');
-    summary = summary.replace(/(~[^~]+~)([、。！？「『【（])/g, '$1 $2');
+  try {
+    console.log(`Using model: ${model} for video ${url}`);
+    const { data, parsed: structured } = await requestGemini(contents, {
+      apiKey, baseUrl, model, useUrlContext: false, json: true, lowMediaResolution: true, timeoutMs: VIDEO_TIMEOUT_MS,
+      parse: parseStructuredSummary
+    });
 
     return {
-      summary: summary.trim(),
-      translatedBody: undefined,
-      language: "ja",
-      metadata: urlMetadata
+      summary: formatStructuredSummary(structured),
+      structured,
+      language,
+      url,
+      title: structured.title,
+      source: "video",
+      provider: "gemini",
+      model,
+      usage: parseGeminiUsage(data)
     };
   } catch (error) {
     console.error("Error calling Gemini API:", error);
-    throw new Error(`Failed to summarize URLs: ${error instanceof Error ? error.message : String(error)}`);
+    throw wrapError("Failed to summarize video", error);
   }
 }
 
-// Function removed - no longer needed since we use raw output directly
+// Multi-turn follow-up: the summary is the model's first turn, then the thread history and the question.
+// url_context stays enabled so answers are grounded in the linked pages.
+export async function answerQuestionWithGemini(
+  request: QuestionRequest,
+  options: GeminiOptions
+): Promise<QuestionAnswer> {
+  const { apiKey, baseUrl, model = "gemini-2.5-flash", language = "ja" } = options;
+
+  const contents = toGeminiContents([
+    { role: "user", text: buildQuestionPrompt(request.urls, language) },
+    { role: "assistant", text: request.summary },
+    ...request.history,
+    { role: "user", text: request.question },
+  ]);
+
+  try {
+    console.log(`Using model: ${model} for a follow-up question (${contents.length} turns)`);
+    const { data, text } = await requestGemini(contents, { apiKey, baseUrl, model, useUrlContext: true });
+
+    return { text: cleanupForSlack(text), usage: parseGeminiUsage(data) };
+  } catch (error) {
+    console.error("Error calling Gemini API:", error);
+    throw wrapError("Failed to answer question", error);
+  }
+}
+
+// Typed errors keep their class so callers can pick the message; anything else gets context
+function wrapError(context: string, error: unknown): Error {
+  if (error instanceof SummaryError) {
+    return error;
+  }
+  return new Error(`${context}: ${error instanceof Error ? error.message : String(error)}`);
+}
+
+// URLContext reports per URL whether it could be retrieved. A response without the
+// metadata means the model never read the page, so its summary cannot be trusted.
+function checkUrlRetrieval(url: string, data: any): void {
+  const urlMetadata = data.candidates?.[0]?.urlContextMetadata || data.candidates?.[0]?.url_context_metadata;
+
+  if (!urlMetadata) {
+    console.warn(`No URLContext metadata in the response for ${url}`);
+    throw new SummaryError("fetch_blocked", `URLContext did not retrieve ${url}`, { url, status: "NO_URL_CONTEXT_METADATA" });
+  }
+
+  console.log("URLContext Metadata:", JSON.stringify(urlMetadata, null, 2));
+
+  const entries: any[] = urlMetadata.urlMetadata || urlMetadata.url_metadata || [];
+  const entry = entries.find(e => (e.retrievedUrl || e.retrieved_url) === url) ?? entries[0];
+  const status: string | undefined = entry?.urlRetrievalStatus || entry?.url_retrieval_status;
+
+  if (!status || status === "URL_RETRIEVAL_STATUS_SUCCESS") {
+    return;
+  }
+
+  console.warn(`Failed to fetch ${url}: ${status}`);
+  const message = `URLContext could not fetch ${url} (${status})`;
+  switch (status) {
+    case "URL_RETRIEVAL_STATUS_PAYWALL":
+      throw new SummaryError("paywalled", message, { url, status });
+    case "URL_RETRIEVAL_STATUS_UNSAFE":
+      throw new SummaryError("safety_blocked", message, { url, status });
+    default:
+      throw new SummaryError("fetch_blocked", message, { url, status });
+  }
+}
+
+// Blocked prompts and withheld answers come back as HTTP 200, so they are read from the body.
+// A blocked prompt has no candidates at all, so this runs before checkResponse.
+function checkSafety(data: any): void {
+  const blockReason = data.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SummaryError("safety_blocked", `Gemini blocked the prompt (${blockReason})`, { status: blockReason });
+  }
+
+  const candidate = data.candidates?.[0];
+  if (BLOCKED_FINISH_REASONS.includes(candidate?.finishReason)) {
+    throw new SummaryError("safety_blocked", `Gemini withheld the answer (${candidate.finishReason})`, { status: candidate.finishReason });
+  }
+}
+
+function readGeminiText(data: any): string {
+  const candidate = data.candidates?.[0];
+
+  // With url_context the answer can be split across several parts; thought summaries are skipped
+  const parts: any[] = candidate?.content?.parts ?? [];
+  const text = parts.filter(part => !part.thought).map(part => part.text ?? "").join("");
+  if (!text.trim()) {
+    throw new SummaryError("empty_response", `Gemini returned an empty response (finishReason ${candidate?.finishReason ?? "none"})`);
+  }
+
+  return text;
+}
+
+// usageMetadata counts url_context page tokens in promptTokenCount
+function parseGeminiUsage(data: any): TokenUsage | undefined {
+  const metadata = data.usageMetadata;
+  if (!metadata) {
+    return undefined;
+  }
+
+  const inputTokens = metadata.promptTokenCount ?? 0;
+  // Thinking tokens are billed as output
+  const outputTokens = (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0);
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: metadata.totalTokenCount ?? inputTokens + outputTokens
+  };
+}
+
+type GeminiPart =
+  | { text: string }
+  | { inline_data: { mime_type: string; data: string } }
+  | { file_data: { file_uri: string; mime_type?: string } };
+
+interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
+
+// Gemini expects alternating roles, so consecutive turns from the same side are merged
+function toGeminiContents(turns: ConversationTurn[]): GeminiContent[] {
+  const contents: GeminiContent[] = [];
+
+  for (const turn of turns) {
+    const role = turn.role === "assistant" ? "model" : "user";
+    const last = contents[contents.length - 1];
+
+    const lastPart = last?.parts[0];
+    if (last?.role === role && lastPart && "text" in lastPart) {
+      lastPart.text += `\n\n${turn.text}`;
+    } else {
+      contents.push({ role, parts: [{ text: turn.text }] });
+    }
+  }
+
+  return contents;
+}
+
+// Retries timeouts, 429s, 5xx and empty responses (see errors.ts); checkResponse runs before
+// the text is read, so a failure it reports is never retried as an empty response.
+// parse runs inside the retry too, so a summary cut off mid-JSON is requested again.
+async function requestGemini<T = string>(
+  prompt: string | GeminiContent[],
+  options: {
+    apiKey: string;
+    baseUrl?: string;
+    model: string;
+    useUrlContext: boolean;
+    json?: boolean;
+    lowMediaResolution?: boolean;
+    timeoutMs?: number;
+    checkResponse?: (data: any) => void;
+    parse?: (text: string) => T;
+  }
+): Promise<{ data: any; text: string; parsed: T }> {
+  const { apiKey, model, useUrlContext, json = false, lowMediaResolution = false, timeoutMs = REQUEST_TIMEOUT_MS } = options;
+
+  // baseUrl lets requests go through Cloudflare AI Gateway instead of Google directly
+  const baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+
+  const body = JSON.stringify({
+    contents: typeof prompt === "string" ? [{ parts: [{ text: prompt }] }] : prompt,
+    ...(useUrlContext ? { tools: [{ url_context: {} }] } : {}),
+    generationConfig: {
+      temperature: 0.7,
+      topK: 40,
+      topP: 0.95,
+      // JSON output is longer than plain bullets
+      maxOutputTokens: 4096,
+      // NOTE: Cannot use responseMimeType with url_context tool, so those responses are parsed leniently
+      ...(json && !useUrlContext ? { responseMimeType: "application/json" } : {}),
+      // Low resolution cuts video frames to about a third of the tokens, so long videos fit
+      ...(lowMediaResolution ? { mediaResolution: "MEDIA_RESOLUTION_LOW" } : {})
+    }
+  });
+
+  return withRetry(`Gemini ${model}`, async () => {
+    // Use REST API directly; url_context lets Gemini fetch the page itself
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/v1beta/models/${model}:generateContent?key=${apiKey}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json; charset=utf-8" },
+        body,
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+    } catch (error) {
+      throw providerFetchError("Gemini", error);
+    }
+
+    if (!response.ok) {
+      throw providerHttpError("Gemini", response.status, await response.text(), response.headers.get("retry-after"));
+    }
+
+    const data = await response.json() as any;
+    checkSafety(data);
+    options.checkResponse?.(data);
+    const text = readGeminiText(data);
+    return { data, text, parsed: options.parse ? options.parse(text) : text as T };
+  });
+}
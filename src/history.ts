@@ -0,0 +1,51 @@
+import { slackGetPermalink } from "./slack";
+import { addDigestEntries } from "./digest";
+import { archiveSummaries } from "./archive";
+import type { UrlSummaryOutcome, UrlSummarySuccess } from "./summarize";
+import type { Env } from "./types";
+
+// Where a set of summaries was posted
+export interface SummarySource {
+  // Workspace the summaries were posted in
+  team?: string;
+  channel: string;
+  // Slack's channel_type ("channel", "group", "im", "mpim"); only "channel" is public
+  channelType?: string;
+  // User who shared the links
+  poster?: string;
+  // The message the links were shared in; slash commands have none
+  ts?: string;
+  permalink?: string;
+}
+
+// Keeps a record of posted summaries for the channel digest and the searchable archive.
+// Never throws: the reply is already in Slack, so a retry would only post it twice.
+export async function recordPostedSummaries(
+  env: Env,
+  source: SummarySource,
+  outcomes: UrlSummaryOutcome[]
+): Promise<void> {
+  const summaries = outcomes.filter((outcome): outcome is UrlSummarySuccess => outcome.ok);
+  if (summaries.length === 0) {
+    return;
+  }
+
+  let permalink: string | undefined;
+  if (source.ts) {
+    permalink = await slackGetPermalink(env.SLACK_BOT_TOKEN, source.channel, source.ts).catch(error => {
+      console.warn(`Failed to get permalink for ${source.channel}:${source.ts}:`, error);
+      return undefined;
+    });
+  }
+
+  const recorded = { ...source, permalink };
+
+  await Promise.all([
+    addDigestEntries(env, recorded, summaries).catch(error => {
+      console.error(`Failed to record digest entries for ${source.channel}:`, error);
+    }),
+    archiveSummaries(env, recorded, summaries).catch(error => {
+      console.error(`Failed to archive summaries for ${source.channel}:`, error);
+    })
+  ]);
+}
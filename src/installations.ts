@@ -0,0 +1,107 @@
+import type { Env, SlackEventEnvelope } from "./types";
+
+// A workspace that installed the app through the OAuth flow (see oauth.ts)
+export interface SlackInstallation {
+  teamId: string;
+  teamName?: string;
+  enterpriseId?: string;
+  appId?: string;
+  botToken: string;
+  botUserId?: string;
+  botScopes: string[];
+  // User who installed the app
+  installedBy?: string;
+  installedAt: number;
+}
+
+const INSTALLATION_PREFIX = "installation:";
+
+function installationKey(teamId: string): string {
+  return `${INSTALLATION_PREFIX}${teamId}`;
+}
+
+export async function getInstallation(
+  kv: KVNamespace,
+  teamId: string
+): Promise<SlackInstallation | null> {
+  return kv.get<SlackInstallation>(installationKey(teamId), "json");
+}
+
+export async function saveInstallation(
+  kv: KVNamespace,
+  installation: SlackInstallation
+): Promise<void> {
+  await kv.put(installationKey(installation.teamId), JSON.stringify(installation));
+}
+
+export async function deleteInstallation(
+  kv: KVNamespace,
+  teamId: string
+): Promise<void> {
+  await kv.delete(installationKey(teamId));
+}
+
+// Env whose SLACK_BOT_TOKEN belongs to the given workspace, so everything downstream
+// (rate limiter, file downloads, thread reads) calls Slack as that workspace's bot.
+// undefined means there is no token for the team and the caller drops the work.
+export async function getTeamEnv(env: Env, teamId: string | undefined): Promise<Env | undefined> {
+  if (teamId && env.DEDUP) {
+    const installation = await getInstallation(env.DEDUP, teamId);
+    if (installation) {
+      return { ...env, SLACK_BOT_TOKEN: installation.botToken };
+    }
+  }
+
+  if (env.SLACK_BOT_TOKEN && isConfiguredTeam(env, teamId)) {
+    return env;
+  }
+
+  console.error(`No Slack installation for team ${teamId ?? "(unknown)"}`);
+  return undefined;
+}
+
+// The configured SLACK_BOT_TOKEN must never be used for another workspace, e.g. one that
+// uninstalled the app. Without OAuth there is only one workspace; with it, the token is
+// only used for SLACK_TEAM_ID (and for channel settings saved before teams were recorded).
+function isConfiguredTeam(env: Env, teamId: string | undefined): boolean {
+  if (!env.SLACK_CLIENT_ID) {
+    return true;
+  }
+  return !!env.SLACK_TEAM_ID && (teamId ?? env.SLACK_TEAM_ID) === env.SLACK_TEAM_ID;
+}
+
+// In shared channels team_id is the workspace the event happened in;
+// the authorization says which installation the event was delivered to
+export function eventTeamId(envelope: SlackEventEnvelope): string | undefined {
+  return envelope.authorizations?.[0]?.team_id ?? envelope.team_id;
+}
+
+// app_uninstalled and tokens_revoked: the stored bot token no longer works
+export async function handleUninstallEvent(
+  envelope: SlackEventEnvelope,
+  env: Env
+): Promise<void> {
+  const event = envelope.event;
+  const teamId = eventTeamId(envelope);
+  if (!event || !teamId || !env.DEDUP) {
+    return;
+  }
+
+  const installation = await getInstallation(env.DEDUP, teamId);
+  if (!installation) {
+    console.log(`${event.type} for team ${teamId} without a stored installation`);
+    return;
+  }
+
+  // tokens_revoked also fires for user tokens, which the bot does not store
+  if (event.type === "tokens_revoked") {
+    const revokedBots = event.tokens?.bot ?? [];
+    if (installation.botUserId && !revokedBots.includes(installation.botUserId)) {
+      console.log(`tokens_revoked for team ${teamId} does not include the bot token`);
+      return;
+    }
+  }
+
+  await deleteInstallation(env.DEDUP, teamId);
+  console.log(`Deleted the installation for team ${teamId} (${installation.teamName ?? "unknown"}) after ${event.type}`);
+}
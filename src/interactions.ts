@@ -0,0 +1,153 @@
+import { slackGetUserInfo, slackRespond } from "./slack";
+import { deleteMessageRateLimited, updateMessageRateLimited } from "./rate-limiter";
+import { summarizeSlackFiles, summarizeUrls, SummarizeOptions } from "./summarize";
+import { createSummarizationProvider } from "./provider";
+import { buildSummaryBlocks, formatSummaryReply, SUMMARY_ACTIONS } from "./render";
+import {
+  deleteReplyContext,
+  getReplyContext,
+  getSourceRecord,
+  ReplyContext,
+  saveReplyContext,
+  saveSourceRecord
+} from "./replies";
+import type { Env, SlackInteractionAction, SlackInteractionPayload } from "./types";
+
+export async function processInteraction(
+  payload: SlackInteractionPayload,
+  env: Env
+): Promise<void> {
+  const action = payload.actions?.[0];
+  const channel = payload.channel?.id ?? payload.container?.channel_id;
+  const ts = payload.message?.ts ?? payload.container?.message_ts;
+
+  if (payload.type !== "block_actions" || !action || !channel || !ts) {
+    console.log("Ignoring interaction:", payload.type, action?.action_id);
+    return;
+  }
+
+  console.log(`Processing ${action.action_id} from ${payload.user.id} on ${channel}:${ts}`);
+
+  try {
+    const context = await getReplyContext(env.DEDUP, channel, ts);
+    if (!context) {
+      await respondEphemeral(payload, "⚠️ この要約の情報が見つかりませんでした（期限切れの可能性があります）。");
+      return;
+    }
+
+    if (action.action_id === SUMMARY_ACTIONS.delete) {
+      await deleteSummary(payload, context, channel, ts, env);
+      return;
+    }
+
+    const options = resummarizeOptions(action, context);
+    if (!options) {
+      console.warn(`Unknown action: ${action.action_id}`);
+      return;
+    }
+
+    const provider = createSummarizationProvider(env);
+    const summarizeOptions = {
+      ...options,
+      usage: { team: payload.team?.id ?? payload.user.team_id, channel, user: payload.user.id }
+    };
+    const outcomes = [
+      ...(context.urls.length > 0 ? await summarizeUrls(context.urls, provider, env, summarizeOptions) : []),
+      ...(context.files?.length ? await summarizeSlackFiles(context.files, provider, env, summarizeOptions) : [])
+    ];
+
+    // Replace the existing reply instead of adding another message to the thread
+    await updateMessageRateLimited(env, {
+      channel,
+      ts,
+      text: formatSummaryReply(outcomes),
+      blocks: buildSummaryBlocks(outcomes, { actions: true })
+    });
+
+    await saveReplyContext(env.DEDUP, channel, ts, {
+      ...context,
+      language: options.language ?? context.language,
+      style: options.style ?? context.style
+    });
+
+    console.log(`Updated summary ${channel}:${ts} via ${action.action_id}`);
+  } catch (error) {
+    console.error("Error processing interaction:", error);
+    try {
+      await respondEphemeral(payload, "⚠️ 申し訳ございません。操作の処理中にエラーが発生しました。");
+    } catch (respondError) {
+      console.error("Failed to send interaction error response:", respondError);
+    }
+  }
+}
+
+function resummarizeOptions(
+  action: SlackInteractionAction,
+  context: ReplyContext
+): SummarizeOptions | undefined {
+  switch (action.action_id) {
+    case SUMMARY_ACTIONS.regenerate:
+      // A regenerate request means the cached summary was not good enough
+      return { language: context.language, style: context.style, refresh: true };
+    case SUMMARY_ACTIONS.detail:
+      return { language: context.language, style: "detailed" };
+    case SUMMARY_ACTIONS.translate: {
+      const language = action.selected_option?.value;
+      return language ? { language, style: context.style } : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+async function deleteSummary(
+  payload: SlackInteractionPayload,
+  context: ReplyContext,
+  channel: string,
+  ts: string,
+  env: Env
+): Promise<void> {
+  const userId = payload.user.id;
+
+  if (userId !== context.poster && !(await isWorkspaceAdmin(userId, env))) {
+    await respondEphemeral(payload, "⚠️ この要約を削除できるのは、元の投稿者またはワークスペース管理者のみです。");
+    return;
+  }
+
+  await deleteMessageRateLimited(env, channel, ts);
+  await deleteReplyContext(env.DEDUP, channel, ts);
+
+  // A later edit of the source message posts a new summary instead of updating this one
+  if (context.sourceTs) {
+    const record = await getSourceRecord(env.DEDUP, channel, context.sourceTs);
+    if (record?.summaryTs === ts) {
+      await saveSourceRecord(env.DEDUP, channel, context.sourceTs, {
+        ...record,
+        summaryTs: undefined,
+        replyTs: record.replyTs.filter(replyTs => replyTs !== ts)
+      });
+    }
+  }
+
+  console.log(`Deleted summary ${channel}:${ts} at the request of ${userId}`);
+}
+
+export async function isWorkspaceAdmin(userId: string, env: Env): Promise<boolean> {
+  try {
+    const user = await slackGetUserInfo(env.SLACK_BOT_TOKEN, userId);
+    return !!(user?.is_admin || user?.is_owner);
+  } catch (error) {
+    console.error(`Failed to look up user ${userId}:`, error);
+    return false;
+  }
+}
+
+async function respondEphemeral(payload: SlackInteractionPayload, text: string): Promise<void> {
+  if (!payload.response_url) return;
+
+  await slackRespond(payload.response_url, {
+    response_type: "ephemeral",
+    replace_original: false,
+    text
+  });
+}
@@ -0,0 +1,112 @@
+import { postMessageRateLimited, updateMessageRateLimited } from "./rate-limiter";
+import { getSourceRecord, saveSourceRecord } from "./replies";
+import { eventTeamId, getTeamEnv } from "./installations";
+import type { Env, SlackEventEnvelope, SlackInteractionPayload } from "./types";
+
+// Work item sent from /slack/events to the summary queue
+export interface SlackEventJob {
+  kind: "slack_event";
+  envelope: SlackEventEnvelope;
+  // Slack's x-slack-retry-num / x-slack-retry-reason headers, for logging
+  slackRetryNum?: string;
+  slackRetryReason?: string;
+  receivedAt: number;
+}
+
+// Button click sent from /slack/interactions to the summary queue; re-summarizing takes as long as an event
+export interface InteractionJob {
+  kind: "interaction";
+  payload: SlackInteractionPayload;
+  receivedAt: number;
+}
+
+export type SummaryJob = SlackEventJob | InteractionJob;
+
+// Events stay marked as done for an hour; Slack stops retrying long before that
+const EVENT_DONE_TTL = 60 * 60;
+// Long enough to cover one attempt; a crashed attempt's marker expires before the next retry matters
+const EVENT_PROCESSING_TTL = 60 * 15;
+
+const BASE_RETRY_DELAY_SECONDS = 15;
+const MAX_RETRY_DELAY_SECONDS = 600;
+// Same as max_retries of the queue consumers in wrangler.toml
+const MAX_RETRIES = 4;
+
+export function createSlackEventJob(envelope: SlackEventEnvelope, request: Request): SlackEventJob {
+  return {
+    kind: "slack_event",
+    envelope,
+    slackRetryNum: request.headers.get("x-slack-retry-num") ?? undefined,
+    slackRetryReason: request.headers.get("x-slack-retry-reason") ?? undefined,
+    receivedAt: Date.now(),
+  };
+}
+
+export function createInteractionJob(payload: SlackInteractionPayload): InteractionJob {
+  return { kind: "interaction", payload, receivedAt: Date.now() };
+}
+
+// Exponential backoff: 15s, 30s, 60s, ... capped at 10 minutes
+export function retryDelaySeconds(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_SECONDS);
+}
+
+// Whether a failure on this attempt is retried by the queue rather than dead-lettered or dropped
+export function willRetry(env: Env, attempt: number): boolean {
+  return !!env.SUMMARY_QUEUE && attempt <= MAX_RETRIES;
+}
+
+function eventKey(eventId: string): string {
+  return `event:${eventId}`;
+}
+
+export type EventStatus = "processing" | "done";
+
+export async function getEventStatus(kv: KVNamespace, eventId: string): Promise<EventStatus | null> {
+  const status = await kv.get(eventKey(eventId));
+  // "1" is what older deployments wrote once an event was handled
+  if (status === "done" || status === "1") return "done";
+  if (status === "processing") return "processing";
+  return null;
+}
+
+export async function markEventProcessing(kv: KVNamespace, eventId: string): Promise<void> {
+  await kv.put(eventKey(eventId), "processing", { expirationTtl: EVENT_PROCESSING_TTL });
+}
+
+// Only called after the reply has been posted, so a failed attempt is retried
+export async function markEventDone(kv: KVNamespace, eventId: string): Promise<void> {
+  await kv.put(eventKey(eventId), "done", { expirationTtl: EVENT_DONE_TTL });
+}
+
+// Posts the final error reply for a job that exhausted its retries
+export async function postDeadLetterReply(job: SlackEventJob, env: Env): Promise<void> {
+  const event = job.envelope.event;
+  const threadTs = event?.type === "link_shared" ? event.message_ts : event?.thread_ts ?? event?.ts;
+
+  if (!event?.channel || !threadTs) {
+    console.warn(`Dead-lettered event ${job.envelope.event_id} has no thread to reply to`);
+    return;
+  }
+
+  const teamEnv = await getTeamEnv(env, eventTeamId(job.envelope));
+  if (!teamEnv) {
+    return;
+  }
+
+  const text = "⚠️ 申し訳ございません。何度か再試行しましたが、要約を作成できませんでした。時間をおいてもう一度お試しください。";
+
+  // A "summarizing" placeholder that was never filled in gets the error instead of a second reply
+  const record = event.ts && teamEnv.DEDUP ? await getSourceRecord(teamEnv.DEDUP, event.channel, event.ts) : null;
+  if (record?.pending && record.summaryTs && event.ts) {
+    await updateMessageRateLimited(teamEnv, { channel: event.channel, ts: record.summaryTs, text });
+    await saveSourceRecord(teamEnv.DEDUP, event.channel, event.ts, { ...record, pending: false });
+    return;
+  }
+
+  await postMessageRateLimited(teamEnv, {
+    channel: event.channel,
+    text,
+    thread_ts: threadTs
+  });
+}
@@ -0,0 +1,166 @@
+import { fetchPdf, PageFetchError } from "./fetch-page";
+import { toBase64 } from "./files";
+import { decodeEntities } from "./readability";
+import type { UrlPolicy } from "./policy";
+import type { SummarizationProvider, SummaryRequest } from "./provider";
+import type { PageContent, SummaryResult } from "./types";
+
+// Content that gets its own input handling and prompt; everything else is an article
+export type MediaKind = "article" | "video" | "document" | "social";
+
+const YOUTUBE_HOST_RE = /^(?:www\.|m\.|music\.)?youtube\.com$/;
+const YOUTUBE_ID_RE = /^[\w-]{11}$/;
+const X_HOST_RE = /^(?:www\.|mobile\.)?(?:x|twitter)\.com$/;
+const X_STATUS_PATH_RE = /^\/(?:([^/]+)|i\/web)\/status(?:es)?\/(\d+)/;
+
+// X's public oEmbed endpoint returns the post text without logging in
+const X_OEMBED_URL = "https://publish.twitter.com/oembed";
+const OEMBED_TIMEOUT_MS = 5000;
+// PDFs are bigger than pages, so they get longer to download
+const PDF_TIMEOUT_MS = 20000;
+
+export function detectMediaKind(url: string): MediaKind {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "article";
+  }
+
+  if (youtubeVideoId(url)) {
+    return "video";
+  }
+  if (/\.pdf$/i.test(parsed.pathname)) {
+    return "document";
+  }
+  if (X_HOST_RE.test(parsed.hostname) && X_STATUS_PATH_RE.test(parsed.pathname)) {
+    return "social";
+  }
+  return "article";
+}
+
+// Handles youtu.be links, watch pages, Shorts, live streams and embeds
+export function youtubeVideoId(url: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return undefined;
+  }
+
+  let id: string | null | undefined;
+  if (parsed.hostname === "youtu.be") {
+    id = parsed.pathname.split("/")[1];
+  } else if (YOUTUBE_HOST_RE.test(parsed.hostname)) {
+    id = parsed.pathname === "/watch"
+      ? parsed.searchParams.get("v")
+      : parsed.pathname.match(/^\/(?:shorts|live|embed)\/([^/]+)/)?.[1];
+  }
+
+  return id && YOUTUBE_ID_RE.test(id) ? id : undefined;
+}
+
+// Link to a chapter of a summarized video; start is "m:ss" or "h:mm:ss"
+export function youtubeTimestampUrl(url: string, start: string): string | undefined {
+  const id = youtubeVideoId(url);
+  if (!id || !/^\d+(:\d{2}){1,2}$/.test(start)) {
+    return undefined;
+  }
+
+  const seconds = start.split(":").reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+  return `https://www.youtube.com/watch?v=${id}&t=${seconds}s`;
+}
+
+// Gemini watches the video itself; providers that cannot get the generic page summary instead
+export async function summarizeYouTubeVideo(
+  url: string,
+  provider: SummarizationProvider,
+  request: SummaryRequest,
+  fallback: () => Promise<SummaryResult>
+): Promise<SummaryResult> {
+  const id = youtubeVideoId(url);
+  if (!id || !provider.summarizeVideo) {
+    console.log(`${provider.name} cannot watch videos, summarizing ${url} as a page`);
+    return fallback();
+  }
+
+  return provider.summarizeVideo(`https://www.youtube.com/watch?v=${id}`, { ...request, media: "video" });
+}
+
+// Downloads the PDF and hands it to the model as a document, so it can cite page numbers
+export async function summarizePdfUrl(
+  url: string,
+  provider: SummarizationProvider,
+  request: SummaryRequest,
+  maxBytes: number,
+  policy: UrlPolicy
+): Promise<SummaryResult> {
+  if (!provider.summarizeFile) {
+    throw new PageFetchError(url, "unsupported_type", `${provider.name} cannot read PDFs`, undefined, "application/pdf");
+  }
+
+  const pdf = await fetchPdf(url, { maxBytes, timeoutMs: PDF_TIMEOUT_MS, policy });
+  const name = decodeURIComponent(new URL(pdf.url).pathname.split("/").pop() || "document.pdf");
+
+  const result = await provider.summarizeFile(
+    { url, name, mimeType: "application/pdf", data: toBase64(pdf.bytes) },
+    { ...request, media: "document" }
+  );
+  return { ...result, url, source: "fetched" };
+}
+
+// Posts are short, so they get the short-form prompt whatever the requested style
+export async function summarizeSocialPost(
+  url: string,
+  provider: SummarizationProvider,
+  request: SummaryRequest
+): Promise<SummaryResult> {
+  const page = await fetchXPost(url);
+  const result = await provider.summarizeContent(page, { ...request, media: "social" });
+
+  // The model's "author: point" title says more than "author's post"
+  return { ...result, title: result.structured.title ?? result.title };
+}
+
+async function fetchXPost(url: string): Promise<PageContent> {
+  const parsed = new URL(url);
+  const [, user = "i", id] = parsed.pathname.match(X_STATUS_PATH_RE) ?? [];
+  // oEmbed only knows twitter.com URLs
+  const postUrl = `https://twitter.com/${user}/status/${id}`;
+
+  let response: Response;
+  try {
+    response = await fetch(`${X_OEMBED_URL}?url=${encodeURIComponent(postUrl)}&omit_script=true&dnt=true`, {
+      signal: AbortSignal.timeout(OEMBED_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new PageFetchError(url, "network", `Failed to fetch oEmbed for ${url}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // Deleted, protected and age-restricted posts answer 403 or 404
+  if (!response.ok) {
+    throw new PageFetchError(url, "http_error", `HTTP ${response.status} from oEmbed for ${url}`, response.status);
+  }
+
+  const data = await response.json() as { author_name?: string; html?: string };
+  const html = data.html ?? "";
+
+  // The embed is <blockquote><p>post text</p>&mdash; Author (@user) <a>date</a></blockquote>
+  const body = html.match(/<p[^>]*>([\s\S]*?)<\/p>/)?.[1] ?? "";
+  const text = decodeEntities(body.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, "")).trim();
+  const date = html.match(/<a[^>]*>([^<]+)<\/a>\s*<\/blockquote>/)?.[1];
+
+  if (!text) {
+    throw new PageFetchError(url, "unsupported_type", `oEmbed for ${url} has no post text`);
+  }
+
+  console.log(`Fetched X post ${id} by ${data.author_name} (${text.length} chars)`);
+
+  return {
+    url,
+    text,
+    title: data.author_name ? `${data.author_name} の投稿` : undefined,
+    siteName: "X",
+    publishedAt: date ? decodeEntities(date) : undefined
+  };
+}
@@ -0,0 +1,103 @@
+import type { SummarizationProvider } from "./provider";
+import { formatStructuredSummary } from "./structured";
+import type { PageContent, StructuredSummary, SummaryResult, SummaryStyle } from "./types";
+
+// Deterministic provider for local development and offline runs: never calls the network
+const BULLET_LIMITS: Record<SummaryStyle, number> = {
+  short: 2,
+  standard: 3,
+  detailed: 6,
+};
+
+export function createMockProvider(): SummarizationProvider {
+  return {
+    name: "mock",
+    model: "mock",
+    summarizeUrl: async (url, request) => {
+      const host = safeHostname(url);
+      const bullets = [
+        `${host} のページのモック要約です`,
+        `URL: \`${url}\``,
+        `言語: ${request.language} / スタイル: ${request.style}`,
+      ];
+
+      return buildResult(url, `Mock: ${host}`, bullets.slice(0, BULLET_LIMITS[request.style]), request.language, "url_context");
+    },
+    summarizeContent: async (page, request) => {
+      // Social posts get the short form whatever the style
+      const limit = request.media === "social" ? 1 : BULLET_LIMITS[request.style];
+      const bullets = firstSentences(page, limit);
+      return buildResult(page.url, page.title ?? `Mock: ${safeHostname(page.url)}`, bullets, request.language, "fetched");
+    },
+    summarizeFile: async (file, request) => {
+      const bullets = [
+        `${file.name} のモック要約です`,
+        `形式: ${file.mimeType} / ${Math.floor(file.data.length * 3 / 4)} bytes`,
+        `言語: ${request.language} / スタイル: ${request.style}`,
+      ].map(bullet => request.media === "document" ? `${bullet} (p.1)` : bullet);
+
+      return buildResult(file.url, `Mock: ${file.name}`, bullets.slice(0, BULLET_LIMITS[request.style]), request.language, "file");
+    },
+    summarizeVideo: async (url, request) => {
+      const bullets = [
+        `${url} の動画のモック要約です`,
+        `言語: ${request.language} / スタイル: ${request.style}`,
+      ];
+
+      const result = buildResult(url, "Mock: video", bullets.slice(0, BULLET_LIMITS[request.style]), request.language, "video");
+      const structured = {
+        ...result.structured,
+        chapters: [{ start: "0:00", title: "導入" }, { start: "1:30", title: "本題" }]
+      };
+      return { ...result, structured, summary: formatStructuredSummary(structured) };
+    },
+    answerQuestion: async (request) => {
+      const hosts = request.urls.map(safeHostname).join(", ");
+      return { text: `• ${hosts} についてのモック回答です\n• 質問: ${request.question}\n• 会話の履歴: ${request.history.length}件` };
+    },
+  };
+}
+
+function buildResult(
+  url: string,
+  title: string,
+  bullets: string[],
+  language: string,
+  source: SummaryResult["source"]
+): SummaryResult {
+  const structured: StructuredSummary = {
+    title,
+    tldr: `${title} のモック要約です`,
+    bullets,
+    keyFacts: [],
+    tags: [safeHostname(url)]
+  };
+
+  return {
+    summary: formatStructuredSummary(structured),
+    structured,
+    language,
+    url,
+    title,
+    source,
+    provider: "mock",
+    model: "mock"
+  };
+}
+
+function firstSentences(page: PageContent, limit: number): string[] {
+  const sentences = page.text
+    .split(/(?<=[。.!?！？])\s*|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+
+  return sentences.length > 0 ? sentences.slice(0, limit) : ["(本文なし)"];
+}
+
+function safeHostname(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,168 @@
+import { slackOAuthAccess } from "./slack";
+import { saveInstallation, SlackInstallation } from "./installations";
+import type { Env } from "./types";
+
+// Everything the bot needs: public and private channel messages, replies, digest DMs,
+// unfurls, files, progress reactions, slash commands and admin checks
+export const BOT_SCOPES = [
+  "app_mentions:read",
+  "channels:history",
+  "chat:write",
+  "commands",
+  "files:read",
+  "groups:history",
+  "im:write",
+  "links:read",
+  "links:write",
+  "reactions:write",
+  "users:read",
+];
+
+const AUTHORIZE_URL = "https://slack.com/oauth/v2/authorize";
+const CALLBACK_PATH = "/slack/oauth/callback";
+
+// The state is kept in KV and in a cookie, so a callback only completes
+// in the browser that started the install
+const OAUTH_STATE_PREFIX = "oauth-state:";
+const OAUTH_STATE_TTL = 600;
+const STATE_COOKIE = "slack_oauth_state";
+
+function isOAuthConfigured(env: Env): boolean {
+  return !!env.SLACK_CLIENT_ID && !!env.SLACK_CLIENT_SECRET && !!env.DEDUP;
+}
+
+function redirectUri(request: Request, env: Env): string {
+  return env.SLACK_OAUTH_REDIRECT_URL || `${new URL(request.url).origin}${CALLBACK_PATH}`;
+}
+
+// GET /slack/install: sends the browser to Slack's consent screen
+export async function handleInstall(request: Request, env: Env): Promise<Response> {
+  if (!isOAuthConfigured(env)) {
+    return new Response("OAuth is not configured", { status: 501 });
+  }
+
+  const state = crypto.randomUUID();
+  await env.DEDUP.put(`${OAUTH_STATE_PREFIX}${state}`, "1", { expirationTtl: OAUTH_STATE_TTL });
+
+  const url = new URL(AUTHORIZE_URL);
+  url.searchParams.set("client_id", env.SLACK_CLIENT_ID!);
+  url.searchParams.set("scope", BOT_SCOPES.join(","));
+  url.searchParams.set("state", state);
+  url.searchParams.set("redirect_uri", redirectUri(request, env));
+
+  return new Response(null, {
+    status: 302,
+    headers: {
+      "Location": url.toString(),
+      "Set-Cookie": `${STATE_COOKIE}=${state}; Path=${CALLBACK_PATH}; Max-Age=${OAUTH_STATE_TTL}; HttpOnly; Secure; SameSite=Lax`
+    }
+  });
+}
+
+// GET /slack/oauth/callback: exchanges the code for a bot token and stores it per team
+export async function handleOAuthCallback(request: Request, env: Env): Promise<Response> {
+  if (!isOAuthConfigured(env)) {
+    return new Response("OAuth is not configured", { status: 501 });
+  }
+
+  const params = new URL(request.url).searchParams;
+
+  // The user pressed "Cancel" on the consent screen
+  const error = params.get("error");
+  if (error) {
+    console.log(`Slack install was not completed: ${error}`);
+    return htmlResponse("インストールがキャンセルされました", `Slack から次のエラーが返されました: ${error}`, 400);
+  }
+
+  const code = params.get("code");
+  const state = params.get("state");
+  if (!code || !state || !(await consumeState(request, env, state))) {
+    return htmlResponse("インストールを完了できませんでした", "リンクの有効期限が切れています。もう一度インストールをやり直してください。", 400);
+  }
+
+  let data: any;
+  try {
+    data = await slackOAuthAccess(env.SLACK_CLIENT_ID!, env.SLACK_CLIENT_SECRET!, code, redirectUri(request, env));
+  } catch (error) {
+    console.error("Slack OAuth exchange failed:", error);
+    return htmlResponse("インストールを完了できませんでした", "Slack との認証に失敗しました。もう一度インストールをやり直してください。", 502);
+  }
+
+  // Org-wide Enterprise Grid installs have no team, and tokens are looked up per team
+  if (data.is_enterprise_install || !data.team?.id || data.token_type !== "bot" || !data.access_token) {
+    console.error("Unsupported OAuth install:", { team: data.team?.id, enterprise: data.enterprise?.id, tokenType: data.token_type });
+    return htmlResponse("インストールを完了できませんでした", "Enterprise Grid の組織全体へのインストールには対応していません。ワークスペースごとにインストールしてください。", 400);
+  }
+
+  const installation: SlackInstallation = {
+    teamId: data.team.id,
+    teamName: data.team.name,
+    enterpriseId: data.enterprise?.id,
+    appId: data.app_id,
+    botToken: data.access_token,
+    botUserId: data.bot_user_id,
+    botScopes: (data.scope ?? "").split(",").filter(Boolean),
+    installedBy: data.authed_user?.id,
+    installedAt: Date.now()
+  };
+  await saveInstallation(env.DEDUP, installation);
+
+  console.log(`Installed in team ${installation.teamId} (${installation.teamName}) by ${installation.installedBy}`);
+
+  const appLink = installation.appId
+    ? `<p><a href="https://slack.com/app_redirect?app=${encodeURIComponent(installation.appId)}&team=${encodeURIComponent(installation.teamId)}">Slack を開く</a></p>`
+    : "";
+  const response = htmlResponse(
+    "インストールが完了しました",
+    `${installation.teamName ?? installation.teamId} でリンクの要約が使えるようになりました。ボットをチャンネルに招待してください。`,
+    200,
+    appLink
+  );
+  response.headers.append("Set-Cookie", `${STATE_COOKIE}=; Path=${CALLBACK_PATH}; Max-Age=0; HttpOnly; Secure; SameSite=Lax`);
+  return response;
+}
+
+// States are single use: deleted as soon as they are checked
+async function consumeState(request: Request, env: Env, state: string): Promise<boolean> {
+  const cookie = (request.headers.get("cookie") ?? "")
+    .split(";")
+    .map(part => part.trim().split("="))
+    .find(([name]) => name === STATE_COOKIE)?.[1];
+
+  const key = `${OAUTH_STATE_PREFIX}${state}`;
+  const stored = await env.DEDUP.get(key);
+  if (stored) {
+    await env.DEDUP.delete(key);
+  }
+
+  if (!stored || cookie !== state) {
+    console.warn(`Rejected OAuth callback: state ${stored ? "cookie mismatch" : "unknown or expired"}`);
+    return false;
+  }
+  return true;
+}
+
+function htmlResponse(title: string, message: string, status: number, extra = ""): Response {
+  const body = `<!DOCTYPE html>
+<html lang="ja">
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(message)}</p>
+${extra}
+</body>
+</html>`;
+
+  return new Response(body, {
+    status,
+    headers: { "Content-Type": "text/html; charset=utf-8" }
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,154 @@
+// Text extraction from Office Open XML files (.docx, .pptx), which are zip archives of XML parts
+
+export const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+export const PPTX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.presentationml.presentation";
+
+// Guards against zip bombs: XML parts that inflate past this are skipped, and inflating
+// stops once all parts together reach MAX_TOTAL_BYTES. The sizes in the zip headers are
+// not trusted, since a crafted archive can declare anything.
+const MAX_PART_BYTES = 20 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 40 * 1024 * 1024;
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+export async function extractDocxText(bytes: Uint8Array): Promise<string> {
+  const parts = await readZipEntries(bytes, name => name === "word/document.xml");
+  const xml = parts.get("word/document.xml");
+  if (!xml) {
+    throw new Error("word/document.xml not found in .docx file");
+  }
+
+  return xmlToText(xml
+    .replace(/<w:tab\/>/g, "\t")
+    .replace(/<w:br\/>|<\/w:p>/g, "\n"));
+}
+
+export async function extractPptxText(bytes: Uint8Array): Promise<string> {
+  const parts = await readZipEntries(bytes, name => /^ppt\/slides\/slide\d+\.xml$/.test(name));
+  const slideNumber = (name: string) => parseInt(name.match(/(\d+)\.xml$/)![1], 10);
+
+  // One paragraph per line, slides in order and separated by a blank line
+  return Array.from(parts)
+    .sort(([a], [b]) => slideNumber(a) - slideNumber(b))
+    .map(([, xml]) => xmlToText(xml.replace(/<\/a:p>/g, "\n")))
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function xmlToText(xml: string): string {
+  return decodeXmlEntities(xml.replace(/<[^>]+>/g, ""))
+    .split("\n")
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// Minimal zip reader: walks the central directory and inflates the wanted entries.
+// Zip64 and encrypted archives are not supported.
+async function readZipEntries(
+  bytes: Uint8Array,
+  wanted: (name: string) => boolean
+): Promise<Map<string, string>> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end-of-central-directory record sits at the end, before an optional comment of up to 64 KB
+  let eocd = -1;
+  for (let i = bytes.byteLength - 22; i >= Math.max(0, bytes.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error("Not a zip archive");
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, string>();
+  let remaining = MAX_TOTAL_BYTES;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error("Corrupt zip central directory");
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!wanted(name) || size > Math.min(MAX_PART_BYTES, remaining)) continue;
+
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt zip entry ${name}`);
+    }
+    // The local header's name and extra field can differ in length from the central directory's
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, decoder.decode(data));
+      remaining -= data.byteLength;
+    } else if (method === 8) {
+      const inflated = await inflateRaw(data, Math.min(MAX_PART_BYTES, remaining));
+      if (!inflated) {
+        console.warn(`Skipping zip entry ${name}: inflates past the size limit`);
+        continue;
+      }
+      entries.set(name, decoder.decode(inflated));
+      remaining -= inflated.byteLength;
+    } else {
+      console.warn(`Skipping zip entry ${name} with compression method ${method}`);
+    }
+  }
+
+  return entries;
+}
+
+// Reads the inflated output in chunks; undefined once it grows past maxBytes
+async function inflateRaw(data: Uint8Array, maxBytes: number): Promise<Uint8Array | undefined> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return undefined;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
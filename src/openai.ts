@@ -0,0 +1,108 @@
+import { buildSummaryPrompt } from "./prompt";
+import { formatStructuredSummary, parseStructuredSummary } from "./structured";
+import type { SummarizationProvider } from "./provider";
+import type { MediaKind } from "./media";
+import { providerFetchError, providerHttpError, SummaryError, withRetry } from "./errors";
+import type { PageContent, SummaryResult, SummaryStyle } from "./types";
+
+// Any OpenAI-compatible chat completions API works here (OpenAI, Workers AI, OpenRouter, vLLM, ...)
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "gpt-4o-mini";
+const REQUEST_TIMEOUT_MS = 60000;
+
+export interface OpenAIOptions {
+  apiKey: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+export function createOpenAIProvider(options: OpenAIOptions): SummarizationProvider {
+  const model = options.model || DEFAULT_MODEL;
+
+  return {
+    name: "openai",
+    model,
+    summarizeContent: (page, request) =>
+      summarizeContentWithOpenAI(page, { ...options, model }, request.language, request.style, request.media),
+  };
+}
+
+async function summarizeContentWithOpenAI(
+  page: PageContent,
+  options: OpenAIOptions & { model: string },
+  language: string,
+  style: SummaryStyle,
+  media?: MediaKind
+): Promise<SummaryResult> {
+  const { apiKey, model } = options;
+  const baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const prompt = buildSummaryPrompt(page, language, style, media);
+
+  try {
+    console.log(`Using model: ${model} (OpenAI-compatible) for ${page.url}`);
+
+    const { data, structured } = await withRetry(`OpenAI ${model}`, async () => {
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}/chat/completions`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json; charset=utf-8",
+            "Authorization": `Bearer ${apiKey}`,
+          },
+          body: JSON.stringify({
+            model,
+            messages: [{ role: "user", content: prompt }],
+            temperature: 0.7,
+            max_tokens: 4096
+          }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+        });
+      } catch (error) {
+        throw providerFetchError("OpenAI", error);
+      }
+
+      if (!response.ok) {
+        throw providerHttpError("OpenAI", response.status, await response.text(), response.headers.get("retry-after"));
+      }
+
+      const data = await response.json() as any;
+      const choice = data.choices?.[0];
+      if (choice?.finish_reason === "content_filter") {
+        throw new SummaryError("safety_blocked", "OpenAI withheld the answer (content_filter)", { status: "content_filter" });
+      }
+
+      const text: string = choice?.message?.content || "";
+      if (!text.trim()) {
+        throw new SummaryError("empty_response", "OpenAI returned an empty response");
+      }
+
+      // response_format is not supported by every OpenAI-compatible API, so the JSON is parsed leniently.
+      // Parsed inside the retry, so an answer cut off mid-JSON is requested again.
+      return { data, structured: parseStructuredSummary(text) };
+    });
+
+    return {
+      summary: formatStructuredSummary(structured),
+      structured,
+      language,
+      url: page.url,
+      title: page.title ?? structured.title,
+      source: "fetched",
+      provider: "openai",
+      model,
+      usage: data.usage ? {
+        inputTokens: data.usage.prompt_tokens ?? 0,
+        outputTokens: data.usage.completion_tokens ?? 0,
+        totalTokens: data.usage.total_tokens ?? 0
+      } : undefined
+    };
+  } catch (error) {
+    console.error("Error calling OpenAI-compatible API:", error);
+    // Typed errors keep their class so callers can pick the message
+    if (error instanceof SummaryError) {
+      throw error;
+    }
+    throw new Error(`Failed to summarize extracted content: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,262 @@
+import type { Env } from "./types";
+
+// Safety policy applied to every URL before it is sent to an LLM provider
+
+export type PolicyReason =
+  | "scheme"
+  | "credentials"
+  | "private_host"
+  | "private_ip"
+  | "blocked_host"
+  | "signed_url"
+  | "sensitive_param";
+
+export type PolicyDecision =
+  | { action: "allow"; url: string }
+  | { action: "redact"; url: string; original: string; reason: PolicyReason; removedParams: string[] }
+  | { action: "block"; url: string; reason: PolicyReason };
+
+export interface UrlPolicy {
+  allowedSchemes: string[];
+  // Host patterns ("example.com", "*.corp.example.com") that are always blocked
+  blockedHosts: string[];
+  // Host patterns exempt from the private/internal host checks
+  allowedHosts: string[];
+  sensitiveParams: string[];
+  // What to do with URLs carrying sensitive query parameters
+  sensitiveParamAction: "redact" | "block";
+}
+
+const DEFAULT_SENSITIVE_PARAMS = [
+  "token", "access_token", "id_token", "refresh_token", "auth", "authorization",
+  "key", "api_key", "apikey", "secret", "client_secret", "password", "passwd", "pwd",
+  "session", "sessionid", "session_id", "sid", "jwt", "code", "otp",
+];
+
+// Suffixes that only resolve inside a private network
+const INTERNAL_HOST_SUFFIXES = [
+  "localhost", "local", "internal", "intranet", "corp", "lan", "home", "home.arpa", "localdomain",
+];
+
+// Query parameters that mark a pre-signed object storage or CDN URL
+const SIGNED_URL_PARAMS = [
+  ["x-amz-signature"],
+  ["x-amz-credential"],
+  ["awsaccesskeyid", "signature"],
+  ["x-goog-signature"],
+  ["googleaccessid", "signature"],
+  ["sig", "sv"],
+  ["signature", "key-pair-id"],
+];
+
+const REASON_MESSAGES: Record<PolicyReason, string> = {
+  scheme: "対応していないスキームです",
+  credentials: "URLに認証情報が含まれています",
+  private_host: "社内・ローカルネットワークのホストです",
+  private_ip: "プライベートIPアドレスです",
+  blocked_host: "ポリシーで除外されているホストです",
+  signed_url: "署名付きURLのため外部に送信できません",
+  sensitive_param: "トークンなどの機密パラメータを含んでいます",
+};
+
+export function getUrlPolicy(env: Env): UrlPolicy {
+  const list = (value: string | undefined) =>
+    (value ?? "").split(",").map(item => item.trim().toLowerCase()).filter(Boolean);
+
+  return {
+    allowedSchemes: ["http:", "https:"],
+    blockedHosts: list(env.URL_POLICY_BLOCKED_HOSTS),
+    allowedHosts: list(env.URL_POLICY_ALLOWED_HOSTS),
+    sensitiveParams: [...DEFAULT_SENSITIVE_PARAMS, ...list(env.URL_POLICY_SENSITIVE_PARAMS)],
+    sensitiveParamAction: env.URL_POLICY_SENSITIVE_ACTION === "block" ? "block" : "redact",
+  };
+}
+
+export function evaluateUrlPolicy(url: string, policy: UrlPolicy): PolicyDecision {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { action: "block", url, reason: "scheme" };
+  }
+
+  if (!policy.allowedSchemes.includes(parsed.protocol)) {
+    return { action: "block", url, reason: "scheme" };
+  }
+
+  if (parsed.username || parsed.password) {
+    return { action: "block", url, reason: "credentials" };
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+
+  if (policy.blockedHosts.some(pattern => matchesHostPattern(host, pattern))) {
+    return { action: "block", url, reason: "blocked_host" };
+  }
+
+  if (!policy.allowedHosts.some(pattern => matchesHostPattern(host, pattern))) {
+    if (isPrivateIp(host)) {
+      return { action: "block", url, reason: "private_ip" };
+    }
+    if (isInternalHostname(host)) {
+      return { action: "block", url, reason: "private_host" };
+    }
+  }
+
+  const paramNames = Array.from(parsed.searchParams.keys()).map(key => key.toLowerCase());
+  if (SIGNED_URL_PARAMS.some(required => required.every(name => paramNames.includes(name)))) {
+    return { action: "block", url, reason: "signed_url" };
+  }
+
+  const sensitive = Array.from(parsed.searchParams.keys())
+    .filter(key => policy.sensitiveParams.includes(key.toLowerCase()));
+
+  if (sensitive.length > 0) {
+    if (policy.sensitiveParamAction === "block") {
+      return { action: "block", url, reason: "sensitive_param" };
+    }
+
+    for (const key of sensitive) {
+      parsed.searchParams.delete(key);
+    }
+    return {
+      action: "redact",
+      url: parsed.toString().replace(/\?$/, ""),
+      original: url,
+      reason: "sensitive_param",
+      removedParams: sensitive,
+    };
+  }
+
+  return { action: "allow", url };
+}
+
+export interface PolicyResult {
+  // URLs that may be summarized (redacted where needed)
+  allowed: string[];
+  blocked: Array<Extract<PolicyDecision, { action: "block" }>>;
+}
+
+// Evaluates every URL and logs each decision without leaking query values
+export function applyUrlPolicy(
+  urls: string[],
+  policy: UrlPolicy,
+  logContext: Record<string, string | undefined> = {}
+): PolicyResult {
+  const result: PolicyResult = { allowed: [], blocked: [] };
+
+  for (const url of urls) {
+    const decision = evaluateUrlPolicy(url, policy);
+
+    console.log("URL policy decision:", JSON.stringify({
+      ...logContext,
+      action: decision.action,
+      url: maskQueryValues(decision.action === "redact" ? decision.original : url),
+      reason: decision.action === "allow" ? undefined : decision.reason,
+      removedParams: decision.action === "redact" ? decision.removedParams : undefined,
+    }));
+
+    if (decision.action === "block") {
+      result.blocked.push(decision);
+    } else {
+      result.allowed.push(decision.url);
+    }
+  }
+
+  return result;
+}
+
+export function describePolicyReason(reason: PolicyReason): string {
+  return REASON_MESSAGES[reason];
+}
+
+// Short thread reply listing blocked links by host only, so secrets are not repeated
+export function formatBlockedReply(blocked: PolicyResult["blocked"]): string {
+  const lines = blocked.map(decision => `• \`${safeHost(decision.url)}\` — ${describePolicyReason(decision.reason)}`);
+  return `🔒 次のリンクはセキュリティポリシーにより要約しませんでした:\n${lines.join("\n")}`;
+}
+
+function matchesHostPattern(host: string, pattern: string): boolean {
+  if (pattern.startsWith("*.")) {
+    const suffix = pattern.slice(2);
+    return host === suffix || host.endsWith(`.${suffix}`);
+  }
+  return host === pattern;
+}
+
+function isInternalHostname(host: string): boolean {
+  // Single-label hosts like "wiki" or "jenkins" only resolve on an intranet
+  if (!host.includes(".") && !host.includes(":")) {
+    return true;
+  }
+  return INTERNAL_HOST_SUFFIXES.some(suffix => host === suffix || host.endsWith(`.${suffix}`));
+}
+
+function isPrivateIp(host: string): boolean {
+  const ipv4 = parseIpv4(host);
+  if (ipv4) {
+    return isPrivateIpv4(ipv4);
+  }
+
+  if (!host.includes(":")) {
+    return false;
+  }
+
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1); the URL parser rewrites it to hex groups
+  const mapped = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const high = parseInt(mapped[1], 16);
+    const low = parseInt(mapped[2], 16);
+    return isPrivateIpv4([high >> 8, high & 0xff, low >> 8, low & 0xff]);
+  }
+
+  return (
+    host === "::" ||
+    host === "::1" ||
+    /^f[cd][0-9a-f]{0,2}:/.test(host) ||   // fc00::/7 unique local
+    /^fe[89ab][0-9a-f]?:/.test(host)       // fe80::/10 link-local
+  );
+}
+
+function parseIpv4(host: string): number[] | undefined {
+  const parts = host.split(".");
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part))) {
+    return undefined;
+  }
+  const octets = parts.map(Number);
+  return octets.every(octet => octet <= 255) ? octets : undefined;
+}
+
+function isPrivateIpv4([a, b]: number[]): boolean {
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||   // carrier-grade NAT
+    (a === 169 && b === 254) ||             // link-local, cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224                                 // multicast and reserved
+  );
+}
+
+function maskQueryValues(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const key of Array.from(parsed.searchParams.keys())) {
+      parsed.searchParams.set(key, "***");
+    }
+    return parsed.toString();
+  } catch {
+    return "(invalid url)";
+  }
+}
+
+function safeHost(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return "(invalid url)";
+  }
+}
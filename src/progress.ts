@@ -0,0 +1,46 @@
+import { slackAddReaction, slackRemoveReaction } from "./slack";
+import type { Env } from "./types";
+
+// Shown on the user's message while its links are summarized, then swapped for the result
+export type ProgressState = "working" | "done" | "failed";
+
+const PROGRESS_REACTIONS: Record<ProgressState, string> = {
+  working: "hourglass_flowing_sand",
+  done: "white_check_mark",
+  failed: "warning"
+};
+
+export const RETRYING_TEXT = "⚠️ 要約中にエラーが発生しました。自動で再試行しています…";
+export const FAILED_TEXT = "⚠️ 申し訳ございません。要約中にエラーが発生しました。時間をおいてもう一度お試しください。";
+
+// Posted right away and replaced with chat.update once the summaries are ready
+export function formatPlaceholder(urlCount: number, fileCount: number): string {
+  const counts = [
+    urlCount > 0 ? `リンク${urlCount}件` : "",
+    fileCount > 0 ? `ファイル${fileCount}件` : ""
+  ].filter(Boolean).join("・");
+  return `⏳ 要約しています…（${counts}）`;
+}
+
+// Reactions are only a hint, so failures (e.g. a missing reactions:write scope) are logged, not thrown
+export async function setProgressReaction(
+  env: Env,
+  channel: string,
+  ts: string,
+  state: ProgressState,
+  previous?: ProgressState
+): Promise<void> {
+  if (previous && previous !== state) {
+    try {
+      await slackRemoveReaction(env.SLACK_BOT_TOKEN, channel, ts, PROGRESS_REACTIONS[previous]);
+    } catch (error) {
+      console.warn(`Failed to remove :${PROGRESS_REACTIONS[previous]}: from ${channel}:${ts}:`, error);
+    }
+  }
+
+  try {
+    await slackAddReaction(env.SLACK_BOT_TOKEN, channel, ts, PROGRESS_REACTIONS[state]);
+  } catch (error) {
+    console.warn(`Failed to add :${PROGRESS_REACTIONS[state]}: to ${channel}:${ts}:`, error);
+  }
+}
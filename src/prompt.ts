@@ -0,0 +1,210 @@
+import type { MediaKind } from "./media";
+import type { FileInput, PageContent, SummaryStyle } from "./types";
+
+// Bump whenever the prompt changes so cached summaries are regenerated
+export const PROMPT_VERSION = 6;
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  ja: "日本語",
+  en: "英語",
+  zh: "中国語（簡体字）",
+  "zh-tw": "中国語（繁体字）",
+  ko: "韓国語",
+  fr: "フランス語",
+  de: "ドイツ語",
+  es: "スペイン語",
+  pt: "ポルトガル語",
+  it: "イタリア語",
+  vi: "ベトナム語",
+  th: "タイ語",
+  id: "インドネシア語",
+};
+
+const BULLET_COUNTS: Record<SummaryStyle, string> = {
+  short: "2〜3個",
+  standard: "3〜6個",
+  detailed: "6〜10個",
+};
+
+const SLACK_FORMAT_RULES = `【Slack公式マークダウン仕様】
+以下の形式のみ使用可能です：
+- *太字* → シングルアスタリスク（例: *重要*）
+- _斜体_ → アンダースコア（例: _注釈_）
+- ~取り消し線~ → チルダ（例: ~削除~）
+- \`コード\` → バッククォート（例: \`npm install\`）
+- 箇条書き → • （U+2022）で開始
+- 引用 → > で開始
+
+【使用禁止】
+- **text** → ダブルアスタリスクは使わない
+- 番号付きリスト → Slackは1. 2. 3.をサポートしない
+- # 見出し → Slackはマークダウン見出しをサポートしない
+- [リンク](URL) → この形式は使わない、URLは直接記載`;
+
+// Extra rules for content that is not an ordinary article; they override the general ones
+function mediaRules(media: MediaKind, lang: string): string {
+  switch (media) {
+    case "video":
+      return `- chapters: 動画の流れを表すチャプターを3〜12個。start は動画内の開始位置（"m:ss" または "h:mm:ss"）、title はその部分の内容を${lang}で短く
+- readingTimeMinutes: 動画の長さ（分、整数）
+- keyFacts には発言の引用と、その位置（例: 12:34）を添える`;
+    case "document":
+      return `- bullets と keyFacts の末尾に、根拠となるページ番号を (p.3) や (p.3-5) の形式で付ける
+- readingTimeMinutes: 文書全体を読むのにかかるおおよその分数（整数）`;
+    case "social":
+      return `- これはSNSの投稿です。tldr で投稿の主張を一文にまとめる
+- bullets: 補足や文脈があるときだけ0〜2個（投稿の言い換えを繰り返さない）
+- keyFacts: 投稿の核心となる一文を原文のまま1つだけ
+- title: 「投稿者名: 投稿の要点」の形式
+- readingTimeMinutes は出力しない`;
+    default:
+      return "";
+  }
+}
+
+export function languageName(language: string): string {
+  return LANGUAGE_NAMES[language.toLowerCase()] ?? language;
+}
+
+export function buildSummaryPrompt(
+  source: string | PageContent | FileInput,
+  language: string,
+  style: SummaryStyle,
+  media: MediaKind = "article"
+): string {
+  const lang = languageName(language);
+  const japaneseRules = japaneseSpacingRules(language);
+  const extraRules = mediaRules(media, lang);
+
+  return `${describeSource(source, lang, media)}
+
+【出力形式】
+次のJSONオブジェクトだけを出力してください（前後に説明文やコードブロックを付けない）：
+
+{
+  "title": "ページのタイトル",
+  "tldr": "ページの内容を一文で要約",
+  "bullets": ["重要ポイント1", "重要ポイント2", "重要ポイント3"],
+  "keyFacts": ["ページ内の印象的な引用や重要な数字"],
+  "readingTimeMinutes": 5,
+  "tags": ["トピック1", "トピック2"],
+  "sourceLanguage": "en"${media === "video" ? `,
+  "chapters": [{ "start": "0:00", "title": "導入" }]` : ""}
+}
+
+- bullets: ${BULLET_COUNTS[style]}の重要ポイント（先頭に • などの記号を付けない）
+- keyFacts: 注目すべき引用や数字を0〜3個。引用は原文のまま、それ以外は${lang}で書く
+- readingTimeMinutes: ページ本文を読むのにかかるおおよその分数（整数）
+- tags: ページの話題を表す短いキーワードを1〜5個
+- sourceLanguage: ページが書かれている言語のISO 639-1コード
+- title、tldr、bullets、tagsは${lang}で書く
+${extraRules ? `\n【この内容向けの追加ルール（上のルールより優先）】\n${extraRules}\n` : ""}
+各文字列の中では以下のSlack記法を使えます：
+${SLACK_FORMAT_RULES}
+${japaneseRules}
+必ず有効なJSONで、文字列の値は${lang}とSlack仕様に従って出力してください。`;
+}
+
+// Spacing rules only make sense when the output contains Japanese text
+function japaneseSpacingRules(language: string): string {
+  return language.toLowerCase() === "ja" ? `
+【重要な注意点】
+- 日本語（ひらがな、カタカナ、漢字）とマークダウンの間には必ず半角スペースを入れる
+- マークダウンの前後両方にスペースが必要：
+  * 太字: これは *重要* です（正しい）、これは*重要*です（間違い）
+  * コード: 設定で \`tsconfig.json\` を編集（正しい）、設定で\`tsconfig.json\`を編集（間違い）
+  * 斜体: ここは _注意_ が必要（正しい）、ここは_注意_が必要（間違い）
+  * 取り消し線: この機能は ~廃止~ されました（正しい）、この機能は~廃止~されました（間違い）
+- 句読点（、。）の扱い：
+  * マークダウンの前に句読点がある場合: 移行する際、 \`tsconfig.json\` のパス（正しい）
+  * マークダウンの後に句読点がある場合: *重要* 、2位に（正しい）、*重要*、2位に（間違い）
+  * つまり: 句読点とマークダウンの間には必ずスペースを入れる
+- マークダウンの内側にスペースを入れない（*重要* は正しい、* 重要 * は間違い）
+` : "";
+}
+
+// Opening turn of a follow-up conversation; the summary and thread history follow it
+export function buildQuestionPrompt(urls: string[], language: string): string {
+  const lang = languageName(language);
+
+  return `以下のWebページについて、このあと続く会話の質問に答えてください:
+${urls.join("\n")}
+
+【回答のルール】
+- 必ず上記のページを読み、その内容に基づいて回答する
+- ページに書かれていないことは推測せず、「ページには記載がありません」と伝える
+- 必要に応じてページ内の該当箇所を短く引用する
+- 簡潔に、数行から十数行程度で回答する
+
+${SLACK_FORMAT_RULES}
+${japaneseSpacingRules(language)}
+必ず${lang}で、上記のSlack仕様に従って回答してください。`;
+}
+
+function describeSource(source: string | PageContent | FileInput, lang: string, media: MediaKind): string {
+  // The video is attached as file_data, next to the prompt
+  if (typeof source === "string" && media === "video") {
+    return `添付の動画（${source}）を最後まで見て、${lang}で要約してください。`;
+  }
+
+  if (typeof source === "string") {
+    return `以下のWebページを読んで、${lang}で要約してください:
+${source}`;
+  }
+
+  // The file itself is attached to the request
+  if ("data" in source) {
+    return `添付のファイル「${source.name}」を読んで、${lang}で要約してください。`;
+  }
+
+  const details = [
+    source.title ? `タイトル: ${source.title}` : undefined,
+    source.siteName ? `サイト: ${source.siteName}` : undefined,
+    source.publishedAt ? `公開日: ${source.publishedAt}` : undefined,
+  ].filter(Boolean).join("\n");
+
+  const kind = media === "social" ? "SNSの投稿" : "Webページの本文";
+  return `以下は ${source.url} から抽出した${kind}です。${lang}で要約してください:
+${details}
+
+---
+${source.text}
+---`;
+}
+
+// Plain-text summaries (responses that are not JSON) put the page title in bold on the first line
+export function splitTitleLine(text: string): { title?: string; body: string } {
+  const [firstLine, ...rest] = text.split("\n");
+  const match = firstLine.trim().match(/^\*([^*]+)\*$/);
+
+  if (!match) {
+    return { body: text };
+  }
+
+  return { title: match[1].trim(), body: rest.join("\n").trim() };
+}
+
+// Clean up model output so it renders correctly as Slack mrkdwn
+export function cleanupForSlack(text: string): string {
+  let summary = text;
+
+  // Convert double asterisks to single for Slack (if Gemini uses them)
+  summary = summary.replace(/\*\*([^*]+)\*\*/g, '*$1*');
+
+  // Remove any markdown code block markers if present
+  summary = summary.replace(/```[a-z]*\n?/g, '').replace(/```/g, '');
+
+  // Add space after Japanese punctuation when followed by markdown
+  summary = summary.replace(/([、。！？」』】）])(`[^`]+`)/g, '$1 $2');
+  summary = summary.replace(/([、。！？」』】）])(\*[^*]+\*)/g, '$1 $2');
+  summary = summary.replace(/([、。！？」』】）])(_[^_]+_)/g, '$1 $2');
+  summary = summary.replace(/([、。！？」』】）])(~[^~]+~)/g, '$1 $2');
+  
+  // Add space before Japanese punctuation when preceded by markdown
+  summary = summary.replace(/(`[^`]+`)([、。！？「『【（])/g, '$1 $2');
+  summary = summary.replace(/(\*[^*]+\*)([、。！？「『【（])/g, '$1 $2');
+  summary = summary.replace(/(_[^_]+_)([、。！？「『【（])/g, '$1 $2');
+  summary = summary.replace(/(~[^~]+~)([、。！？「『【（])/g, '$1 $2');
+
+  return summary.trim();
+}
@@ -0,0 +1,79 @@
+import { createGeminiProvider } from "./gemini";
+import { createOpenAIProvider } from "./openai";
+import { createMockProvider } from "./mock-provider";
+import type { MediaKind } from "./media";
+import type { Env, FileInput, PageContent, SummaryResult, SummaryStyle, TokenUsage } from "./types";
+
+export interface SummaryRequest {
+  language: string;
+  style: SummaryStyle;
+  // Set by the media handlers (see media.ts) to pick the prompt; defaults to "article"
+  media?: MediaKind;
+}
+
+export interface ConversationTurn {
+  role: "user" | "assistant";
+  text: string;
+}
+
+// A follow-up question asked in the thread of a summary
+export interface QuestionRequest {
+  urls: string[];
+  // The summary the bot posted, which opens the conversation
+  summary: string;
+  // Thread messages between the summary and the question, oldest first
+  history: ConversationTurn[];
+  question: string;
+  language: string;
+}
+
+export interface QuestionAnswer {
+  // Slack mrkdwn
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface SummarizationProvider {
+  readonly name: string;
+  readonly model: string;
+  // Only providers that can read a page by URL implement this (e.g. Gemini URLContext).
+  // Everything else gets the page text extracted by our own fetcher.
+  summarizeUrl?(url: string, request: SummaryRequest): Promise<SummaryResult>;
+  summarizeContent(page: PageContent, request: SummaryRequest): Promise<SummaryResult>;
+  // Reads a file such as a PDF directly; files without text to extract need this
+  summarizeFile?(file: FileInput, request: SummaryRequest): Promise<SummaryResult>;
+  // Watches a YouTube video by URL and returns a summary with chapters
+  summarizeVideo?(url: string, request: SummaryRequest): Promise<SummaryResult>;
+  // Answers a follow-up question grounded in the linked pages
+  answerQuestion?(request: QuestionRequest): Promise<QuestionAnswer>;
+}
+
+// options.model overrides the configured model, e.g. the usage fallback model
+export function createSummarizationProvider(
+  env: Env,
+  options: { model?: string } = {}
+): SummarizationProvider {
+  const name = (env.SUMMARY_PROVIDER || "gemini").toLowerCase();
+
+  switch (name) {
+    case "gemini":
+      return createGeminiProvider({
+        apiKey: env.GEMINI_API_KEY,
+        baseUrl: env.GEMINI_BASE_URL,
+        model: options.model || env.GEMINI_MODEL
+      });
+    case "openai":
+      if (!env.OPENAI_API_KEY) {
+        throw new Error("OPENAI_API_KEY is required when SUMMARY_PROVIDER is openai");
+      }
+      return createOpenAIProvider({
+        apiKey: env.OPENAI_API_KEY,
+        baseUrl: env.OPENAI_BASE_URL,
+        model: options.model || env.OPENAI_MODEL
+      });
+    case "mock":
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown SUMMARY_PROVIDER: ${env.SUMMARY_PROVIDER}`);
+  }
+}
@@ -0,0 +1,117 @@
+import { callSlackApi, postMessageBody, sleep } from "./slack";
+import type { Env, SlackPostMessageParams, SlackUnfurlParams, SlackUpdateMessageParams } from "./types";
+
+// Slack allows roughly one message per second per channel
+const MIN_INTERVAL_MS = 1000;
+
+interface SlackApiCall {
+  token: string;
+  method: string;
+  body: object;
+}
+
+type SlackApiCallResult =
+  | { ok: true; data: any }
+  | { ok: false; error: string };
+
+// One instance per channel (idFromName(channel)), so every isolate shares the same queue.
+// Calls run one at a time, at least MIN_INTERVAL_MS apart, and each request only
+// resolves once its own Slack call has finished (including 429 retries).
+export class SlackRateLimiter implements DurableObject {
+  private queue: Promise<unknown> = Promise.resolve();
+  private lastCallAt = 0;
+
+  constructor(private state: DurableObjectState, private env: Env) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const call = await request.json() as SlackApiCall;
+
+    const run = this.queue.then(() => this.execute(call));
+    // A failed call must not block the calls queued behind it
+    this.queue = run.catch(() => undefined);
+
+    let result: SlackApiCallResult;
+    try {
+      result = { ok: true, data: await run };
+    } catch (error) {
+      result = { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    return new Response(JSON.stringify(result), {
+      headers: { "Content-Type": "application/json; charset=utf-8" }
+    });
+  }
+
+  private async execute(call: SlackApiCall): Promise<any> {
+    const wait = this.lastCallAt + MIN_INTERVAL_MS - Date.now();
+    if (wait > 0) {
+      await sleep(wait);
+    }
+
+    try {
+      return await callSlackApi(call.token, call.method, call.body);
+    } finally {
+      this.lastCallAt = Date.now();
+    }
+  }
+}
+
+// Runs a Slack API call through the channel's limiter, or directly when the binding is missing
+export async function callSlackApiRateLimited(
+  env: Env,
+  channel: string,
+  method: string,
+  body: object
+): Promise<any> {
+  if (!env.SLACK_RATE_LIMITER) {
+    return callSlackApi(env.SLACK_BOT_TOKEN, method, body);
+  }
+
+  const stub = env.SLACK_RATE_LIMITER.get(env.SLACK_RATE_LIMITER.idFromName(channel));
+  const call: SlackApiCall = { token: env.SLACK_BOT_TOKEN, method, body };
+
+  // The hostname is ignored; Durable Object stubs only need a valid URL
+  const response = await stub.fetch("https://rate-limiter/call", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(call)
+  });
+
+  const result = await response.json() as SlackApiCallResult;
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+
+  return result.data;
+}
+
+export async function postMessageRateLimited(
+  env: Env,
+  params: SlackPostMessageParams
+): Promise<any> {
+  return callSlackApiRateLimited(env, params.channel, "chat.postMessage", postMessageBody(params));
+}
+
+export async function updateMessageRateLimited(
+  env: Env,
+  params: SlackUpdateMessageParams
+): Promise<any> {
+  return callSlackApiRateLimited(env, params.channel, "chat.update", params);
+}
+
+export async function deleteMessageRateLimited(
+  env: Env,
+  channel: string,
+  ts: string
+): Promise<any> {
+  return callSlackApiRateLimited(env, channel, "chat.delete", { channel, ts });
+}
+
+export async function unfurlRateLimited(
+  env: Env,
+  params: SlackUnfurlParams
+): Promise<any> {
+  // Composer previews have no channel yet, so they are queued by unfurl_id
+  const key = params.channel ?? params.unfurl_id ?? "composer";
+  return callSlackApiRateLimited(env, key, "chat.unfurl", params);
+}
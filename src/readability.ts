@@ -0,0 +1,443 @@
+// Readability-style main content extraction that works on plain HTML strings,
+// so it runs the same in Workers, Bun and against local HTML fixtures.
+
+export interface ExtractedArticle {
+  title?: string;
+  text: string;
+  description?: string;
+  siteName?: string;
+  image?: string;
+  publishedAt?: string;
+  // All og:* properties found in the document, keyed without the "og:" prefix
+  og: Record<string, string>;
+}
+
+interface HtmlNode {
+  tag: string;
+  attrs: Record<string, string>;
+  children: Array<HtmlNode | string>;
+  parent?: HtmlNode;
+}
+
+const VOID_TAGS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input",
+  "link", "meta", "param", "source", "track", "wbr",
+]);
+
+// Elements that never hold article content
+const SKIP_TAGS = new Set([
+  "nav", "header", "footer", "aside", "form", "button", "iframe",
+  "select", "textarea", "menu", "dialog", "figure", "picture", "canvas", "video", "audio",
+]);
+
+const BLOCK_TAGS = new Set([
+  "p", "div", "section", "article", "main", "blockquote", "pre", "ul", "ol", "li",
+  "table", "tr", "h1", "h2", "h3", "h4", "h5", "h6", "dl", "dt", "dd", "br", "hr",
+]);
+
+// Closing one of these implicitly closes an open sibling of the same tag
+const SELF_NESTING_TAGS = new Set(["p", "li", "dt", "dd", "tr", "td", "th", "option"]);
+
+const UNLIKELY_CANDIDATES = /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|supplemental|ad-break|agegate|pagination|pager|popup|yom-remote|share|cookie|newsletter|subscribe|promo/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE_CLASS = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i;
+const NEGATIVE_CLASS = /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+const MIN_PARAGRAPH_LENGTH = 25;
+// Also the cap for text from uploaded files and text/plain pages
+export const MAX_TEXT_LENGTH = 30000;
+
+export function extractArticle(html: string): ExtractedArticle {
+  const meta = extractMetadata(html);
+
+  // Raw-text elements would otherwise leak code and CSS into the article text
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|template|svg|math|object)\b[\s\S]*?<\/\1\s*>/gi, "");
+
+  const root = parseHtml(cleaned);
+  const body = findFirst(root, "body") ?? root;
+  const content = findMainContent(body);
+
+  let text = renderText(content);
+  if (text.length > MAX_TEXT_LENGTH) {
+    text = text.slice(0, MAX_TEXT_LENGTH);
+  }
+
+  const firstHeading = findFirst(body, "h1");
+
+  return {
+    title: meta.og.title || meta.title || (firstHeading ? collapseWhitespace(innerText(firstHeading)) : undefined) || undefined,
+    text,
+    description: meta.og.description || meta.named.description,
+    siteName: meta.og.site_name,
+    image: meta.og.image,
+    publishedAt: meta.publishedAt,
+    og: meta.og,
+  };
+}
+
+interface DocumentMetadata {
+  title?: string;
+  og: Record<string, string>;
+  named: Record<string, string>;
+  publishedAt?: string;
+}
+
+function extractMetadata(html: string): DocumentMetadata {
+  const og: Record<string, string> = {};
+  const named: Record<string, string> = {};
+
+  for (const match of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attrs = parseAttributes(match[0]);
+    const key = (attrs.property || attrs.name || attrs.itemprop || "").toLowerCase();
+    const value = attrs.content;
+    if (!key || value === undefined) continue;
+
+    const decoded = decodeEntities(value).trim();
+    if (key.startsWith("og:")) {
+      og[key.slice(3)] ??= decoded;
+    } else {
+      named[key] ??= decoded;
+    }
+  }
+
+  const titleMatch = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+  const title = titleMatch ? collapseWhitespace(decodeEntities(titleMatch[1])) : undefined;
+
+  return { title: title || undefined, og, named, publishedAt: findPublishedDate(html, named) };
+}
+
+function findPublishedDate(html: string, named: Record<string, string>): string | undefined {
+  const fromMeta =
+    named["article:published_time"] ||
+    named["datepublished"] ||
+    named["date"] ||
+    named["pubdate"] ||
+    named["publishdate"] ||
+    named["dc.date.issued"] ||
+    named["dc.date"];
+  if (fromMeta) return fromMeta;
+
+  // JSON-LD is where most CMSs put the publish date
+  const jsonLd = html.match(/"datePublished"\s*:\s*"([^"]+)"/);
+  if (jsonLd) return jsonLd[1];
+
+  const time = html.match(/<time\b[^>]*\bdatetime\s*=\s*["']([^"']+)["']/i);
+  return time?.[1];
+}
+
+function parseHtml(html: string): HtmlNode {
+  const root: HtmlNode = { tag: "#root", attrs: {}, children: [] };
+  const stack: HtmlNode[] = [root];
+  const tagRe = /<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)([^>]*)>|<![^>]*>|<\?[^>]*>/g;
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagRe.exec(html))) {
+    const current = stack[stack.length - 1];
+    if (match.index > lastIndex) {
+      current.children.push(html.slice(lastIndex, match.index));
+    }
+    lastIndex = tagRe.lastIndex;
+
+    // Doctype, CDATA and processing instructions
+    if (!match[2]) continue;
+
+    const tag = match[2].toLowerCase();
+    const isClosing = match[1] === "/";
+
+    if (isClosing) {
+      const index = findOpenIndex(stack, tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    if (SELF_NESTING_TAGS.has(tag) && current.tag === tag && stack.length > 1) {
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1];
+    const node: HtmlNode = { tag, attrs: parseAttributes(match[3]), children: [], parent };
+    parent.children.push(node);
+
+    const selfClosing = match[3].trimEnd().endsWith("/");
+    if (!VOID_TAGS.has(tag) && !selfClosing) {
+      stack.push(node);
+    }
+  }
+
+  if (lastIndex < html.length) {
+    stack[stack.length - 1].children.push(html.slice(lastIndex));
+  }
+
+  return root;
+}
+
+function findOpenIndex(stack: HtmlNode[], tag: string): number {
+  for (let i = stack.length - 1; i > 0; i--) {
+    if (stack[i].tag === tag) return i;
+  }
+  return -1;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const attrRe = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = attrRe.exec(source))) {
+    const name = match[1].toLowerCase();
+    if (name.startsWith("<")) continue;
+    attrs[name] = match[2] ?? match[3] ?? match[4] ?? "";
+  }
+
+  return attrs;
+}
+
+function findFirst(node: HtmlNode, tag: string): HtmlNode | undefined {
+  for (const child of node.children) {
+    if (typeof child === "string") continue;
+    if (child.tag === tag) return child;
+    const found = findFirst(child, tag);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function isUnlikely(node: HtmlNode): boolean {
+  if (SKIP_TAGS.has(node.tag)) return true;
+  if (node.tag === "body" || node.tag === "article" || node.tag === "main") return false;
+
+  const matchString = `${node.attrs.class ?? ""} ${node.attrs.id ?? ""}`;
+  if (node.attrs.hidden !== undefined || node.attrs["aria-hidden"] === "true") return true;
+  if (node.attrs.role && /navigation|banner|contentinfo|complementary|dialog/.test(node.attrs.role)) return true;
+
+  return UNLIKELY_CANDIDATES.test(matchString) && !MAYBE_CANDIDATE.test(matchString);
+}
+
+function classWeight(node: HtmlNode): number {
+  let weight = 0;
+  for (const value of [node.attrs.class, node.attrs.id]) {
+    if (!value) continue;
+    if (NEGATIVE_CLASS.test(value)) weight -= 25;
+    if (POSITIVE_CLASS.test(value)) weight += 25;
+  }
+  return weight;
+}
+
+function baseScore(node: HtmlNode): number {
+  switch (node.tag) {
+    case "div":
+    case "article":
+    case "main":
+      return 5;
+    case "pre":
+    case "td":
+    case "blockquote":
+      return 3;
+    case "address":
+    case "ol":
+    case "ul":
+    case "dl":
+    case "dd":
+    case "dt":
+    case "li":
+    case "form":
+      return -3;
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6":
+    case "th":
+      return -5;
+    default:
+      return 0;
+  }
+}
+
+// Scores paragraph containers the way Readability does and returns the best one
+function findMainContent(body: HtmlNode): HtmlNode {
+  const scores = new Map<HtmlNode, number>();
+
+  const addScore = (node: HtmlNode | undefined, amount: number) => {
+    if (!node || node.tag === "#root") return;
+    if (!scores.has(node)) {
+      scores.set(node, baseScore(node) + classWeight(node));
+    }
+    scores.set(node, scores.get(node)! + amount);
+  };
+
+  const visit = (node: HtmlNode) => {
+    for (const child of node.children) {
+      if (typeof child === "string" || isUnlikely(child)) continue;
+
+      if (isParagraphLike(child)) {
+        const text = collapseWhitespace(innerText(child));
+        if (text.length >= MIN_PARAGRAPH_LENGTH) {
+          const commas = (text.match(/[,、，。]/g) ?? []).length;
+          const score = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+          addScore(child.parent, score);
+          addScore(child.parent?.parent, score / 2);
+        }
+      }
+
+      visit(child);
+    }
+  };
+  visit(body);
+
+  let best: HtmlNode | undefined;
+  let bestScore = 0;
+  for (const [node, score] of scores) {
+    const adjusted = score * (1 - linkDensity(node));
+    scores.set(node, adjusted);
+    if (adjusted > bestScore) {
+      best = node;
+      bestScore = adjusted;
+    }
+  }
+
+  if (!best) {
+    return body;
+  }
+
+  // Pull in siblings that look like part of the same article (split layouts)
+  const parent = best.parent;
+  if (!parent || parent.tag === "#root") {
+    return best;
+  }
+
+  const threshold = Math.max(10, bestScore * 0.2);
+  const combined: HtmlNode = { tag: "div", attrs: {}, children: [], parent };
+  for (const sibling of parent.children) {
+    if (typeof sibling === "string") continue;
+    if (sibling === best) {
+      combined.children.push(sibling);
+      continue;
+    }
+
+    const score = scores.get(sibling) ?? 0;
+    if (score >= threshold) {
+      combined.children.push(sibling);
+    } else if (sibling.tag === "p") {
+      const text = collapseWhitespace(innerText(sibling));
+      if (text.length > 80 && linkDensity(sibling) < 0.25) {
+        combined.children.push(sibling);
+      }
+    }
+  }
+
+  return combined;
+}
+
+function isParagraphLike(node: HtmlNode): boolean {
+  if (node.tag === "p" || node.tag === "pre" || node.tag === "td") {
+    return true;
+  }
+
+  // Some sites put article text directly in divs without <p> wrappers
+  if (node.tag === "div") {
+    const directText = node.children.filter((c): c is string => typeof c === "string").join("");
+    return collapseWhitespace(decodeEntities(directText)).length >= 100;
+  }
+
+  return false;
+}
+
+function linkDensity(node: HtmlNode): number {
+  const textLength = collapseWhitespace(innerText(node)).length;
+  if (textLength === 0) return 0;
+
+  let linkLength = 0;
+  const visit = (n: HtmlNode) => {
+    for (const child of n.children) {
+      if (typeof child === "string") continue;
+      if (child.tag === "a") {
+        linkLength += collapseWhitespace(innerText(child)).length;
+      } else {
+        visit(child);
+      }
+    }
+  };
+  visit(node);
+
+  return linkLength / textLength;
+}
+
+function innerText(node: HtmlNode): string {
+  let text = "";
+  for (const child of node.children) {
+    if (typeof child === "string") {
+      text += decodeEntities(child);
+    } else if (!SKIP_TAGS.has(child.tag)) {
+      text += innerText(child);
+      if (BLOCK_TAGS.has(child.tag)) text += " ";
+    }
+  }
+  return text;
+}
+
+// Renders a node as plain text, keeping paragraph breaks and list markers
+function renderText(node: HtmlNode): string {
+  const lines: string[] = [];
+  let current = "";
+
+  const flush = () => {
+    const line = collapseWhitespace(current);
+    if (line) lines.push(line);
+    current = "";
+  };
+
+  const visit = (n: HtmlNode) => {
+    for (const child of n.children) {
+      if (typeof child === "string") {
+        current += decodeEntities(child);
+        continue;
+      }
+      if (isUnlikely(child)) continue;
+
+      if (BLOCK_TAGS.has(child.tag)) {
+        flush();
+        if (child.tag === "li") current += "- ";
+        visit(child);
+        flush();
+      } else {
+        visit(child);
+      }
+    }
+  };
+  visit(node);
+  flush();
+
+  return lines.join("\n");
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ",
+  hellip: "…", mdash: "—", ndash: "–", lsquo: "‘", rsquo: "’",
+  ldquo: "“", rdquo: "”", copy: "©", reg: "®", trade: "™", middot: "·",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value = code[1] === "x" || code[1] === "X"
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+      try {
+        return String.fromCodePoint(value);
+      } catch {
+        return entity;
+      }
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
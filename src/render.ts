@@ -0,0 +1,397 @@
+import type { UrlSummaryFailure, UrlSummaryOutcome } from "./summarize";
+import type { DigestEntry } from "./digest";
+import type { ArchivedSummary } from "./archive";
+import { languageName } from "./prompt";
+import { youtubeTimestampUrl } from "./media";
+import type { SlackMessageBlock, SummaryResult } from "./types";
+
+// Slack Block Kit limits
+const MAX_BLOCKS = 50;
+const MAX_SECTION_TEXT = 3000;
+const MAX_HEADER_TEXT = 150;
+
+// Unfurls stay short: a few lines of the summary under the title
+const MAX_UNFURL_LINES = 3;
+const MAX_UNFURL_LINE_TEXT = 200;
+
+// action_id values for the buttons attached to summary replies
+export const SUMMARY_ACTIONS = {
+  regenerate: "summary_regenerate",
+  detail: "summary_detail",
+  translate: "summary_translate",
+  delete: "summary_delete",
+} as const;
+
+const TRANSLATE_LANGUAGES = ["ja", "en", "zh", "ko", "fr", "de", "es"];
+
+// Text formats offered by the JSON API; summaries are produced as Slack mrkdwn
+export type SummaryTextFormat = "mrkdwn" | "markdown" | "text";
+
+export interface SummaryBlockOptions {
+  // Attach regenerate / more detail / translate / delete controls
+  actions?: boolean;
+}
+
+const ACCESS_HINTS = `考えられる理由:
+• ログインが必要なページ
+• 地域制限があるページ
+• robots.txtでブロックされている
+• サーバーがボットをブロックしている
+
+公開されているページのURLをお試しください。`;
+
+// Builds one Slack mrkdwn reply covering every URL in a message
+export function formatSummaryReply(outcomes: UrlSummaryOutcome[]): string {
+  const sections: string[] = [];
+
+  for (const outcome of outcomes) {
+    if (!outcome.ok) continue;
+    const label = outcome.result.title ?? outcome.url;
+    sections.push(`*<${outcome.url}|${escapeLinkLabel(label)}>*\n${outcome.result.summary}`);
+  }
+
+  const failureText = formatFailures(outcomes, sections.length === 0);
+  if (failureText) {
+    sections.push(failureText);
+  }
+
+  return sections.join("\n\n");
+}
+
+// Renders each summary as a card: header with the title, bullets, and a context line
+export function buildSummaryBlocks(
+  outcomes: UrlSummaryOutcome[],
+  options: SummaryBlockOptions = {}
+): SlackMessageBlock[] {
+  const blocks: SlackMessageBlock[] = [];
+
+  for (const outcome of outcomes) {
+    if (!outcome.ok) continue;
+
+    if (blocks.length > 0) {
+      blocks.push({ type: "divider" });
+    }
+    blocks.push(...buildCardBlocks(outcome.url, outcome.result));
+  }
+
+  const hasSummary = blocks.length > 0;
+  const failureText = formatFailures(outcomes, !hasSummary);
+  if (failureText) {
+    if (hasSummary) {
+      blocks.push({ type: "divider" });
+    }
+    for (const chunk of splitMrkdwn(failureText, MAX_SECTION_TEXT)) {
+      blocks.push({ type: "section", text: { type: "mrkdwn", text: chunk } });
+    }
+  }
+
+  if (!options.actions) {
+    return limitBlocks(blocks, MAX_BLOCKS);
+  }
+
+  return [...limitBlocks(blocks, MAX_BLOCKS - 1), buildActionsBlock()];
+}
+
+function buildActionsBlock(): SlackMessageBlock {
+  return {
+    type: "actions",
+    block_id: "summary_actions",
+    elements: [
+      {
+        type: "button",
+        action_id: SUMMARY_ACTIONS.regenerate,
+        text: { type: "plain_text", text: "🔄 再生成", emoji: true }
+      },
+      {
+        type: "button",
+        action_id: SUMMARY_ACTIONS.detail,
+        text: { type: "plain_text", text: "📖 もっと詳しく", emoji: true }
+      },
+      {
+        type: "static_select",
+        action_id: SUMMARY_ACTIONS.translate,
+        placeholder: { type: "plain_text", text: "🌐 翻訳", emoji: true },
+        options: TRANSLATE_LANGUAGES.map(language => ({
+          text: { type: "plain_text", text: languageName(language) },
+          value: language
+        }))
+      },
+      {
+        type: "button",
+        action_id: SUMMARY_ACTIONS.delete,
+        text: { type: "plain_text", text: "🗑️ 削除", emoji: true },
+        style: "danger",
+        confirm: {
+          title: { type: "plain_text", text: "要約を削除" },
+          text: { type: "plain_text", text: "この要約を削除しますか？" },
+          confirm: { type: "plain_text", text: "削除" },
+          deny: { type: "plain_text", text: "キャンセル" },
+          style: "danger"
+        }
+      }
+    ]
+  };
+}
+
+function buildCardBlocks(url: string, result: SummaryResult): SlackMessageBlock[] {
+  const blocks: SlackMessageBlock[] = [
+    {
+      type: "header",
+      text: { type: "plain_text", text: truncate(result.title || hostname(url), MAX_HEADER_TEXT), emoji: true }
+    }
+  ];
+
+  const { structured } = result;
+  const bullets = structured.bullets.map(bullet => `• ${bullet}`).join("\n");
+  const body = [structured.tldr, bullets].filter(Boolean).join("\n\n");
+
+  for (const chunk of splitMrkdwn(body, MAX_SECTION_TEXT)) {
+    blocks.push({ type: "section", text: { type: "mrkdwn", text: chunk } });
+  }
+
+  if (structured.chapters?.length) {
+    // Timestamps link to that point of the video
+    const chapters = structured.chapters.map(chapter => {
+      const link = youtubeTimestampUrl(url, chapter.start);
+      return `${link ? `<${link}|${chapter.start}>` : `\`${chapter.start}\``} ${chapter.title}`;
+    });
+    for (const chunk of splitMrkdwn(`*チャプター*\n${chapters.join("\n")}`, MAX_SECTION_TEXT)) {
+      blocks.push({ type: "section", text: { type: "mrkdwn", text: chunk } });
+    }
+  }
+
+  if (structured.keyFacts.length > 0) {
+    const facts = `*注目ポイント*\n${structured.keyFacts.map(fact => `> ${fact}`).join("\n")}`;
+    for (const chunk of splitMrkdwn(facts, MAX_SECTION_TEXT)) {
+      blocks.push({ type: "section", text: { type: "mrkdwn", text: chunk } });
+    }
+  }
+
+  const details = [`<${url}|${escapeLinkLabel(hostname(url))}>`];
+  if (structured.readingTimeMinutes) {
+    details.push(result.source === "video"
+      ? `約${structured.readingTimeMinutes}分の動画`
+      : `約${structured.readingTimeMinutes}分で読めます`);
+  }
+  if (structured.tags.length > 0) {
+    details.push(structured.tags.map(tag => `#${tag}`).join(" "));
+  }
+  if (result.model) {
+    details.push(result.model);
+  }
+  details.push(result.cached ? "キャッシュ" : "新規生成");
+  if (result.source === "fetched") {
+    details.push("直接取得");
+  } else if (result.source === "file") {
+    details.push("ファイル");
+  } else if (result.source === "video") {
+    details.push("動画");
+  }
+
+  blocks.push({ type: "context", elements: [{ type: "mrkdwn", text: details.join(" · ") }] });
+
+  return blocks;
+}
+
+// Inline preview for chat.unfurl: linked title, the TL;DR and first bullets, and the domain
+export function buildUnfurlBlocks(url: string, result: SummaryResult): SlackMessageBlock[] {
+  const { tldr, bullets } = result.structured;
+  const lines = [tldr, ...bullets.map(bullet => `• ${bullet}`)]
+    .filter(Boolean)
+    .slice(0, MAX_UNFURL_LINES)
+    .map(line => truncate(line, MAX_UNFURL_LINE_TEXT));
+
+  const title = `*<${url}|${escapeLinkLabel(truncate(result.title || hostname(url), MAX_HEADER_TEXT))}>*`;
+
+  return [
+    { type: "section", text: { type: "mrkdwn", text: [title, ...lines].join("\n") } },
+    { type: "context", elements: [{ type: "mrkdwn", text: hostname(url) }] }
+  ];
+}
+
+// Digest of summarized links, grouped by domain with the busiest domains first
+export function buildDigestBlocks(title: string, entries: DigestEntry[]): SlackMessageBlock[] {
+  const blocks: SlackMessageBlock[] = [
+    { type: "header", text: { type: "plain_text", text: title, emoji: true } },
+    { type: "context", elements: [{ type: "mrkdwn", text: `${entries.length}件のリンク` }] }
+  ];
+
+  for (const [domain, group] of groupByDomain(entries)) {
+    const text = `*${domain}*\n${group.map(formatDigestLine).join("\n")}`;
+    for (const chunk of splitMrkdwn(text, MAX_SECTION_TEXT)) {
+      blocks.push({ type: "section", text: { type: "mrkdwn", text: chunk } });
+    }
+  }
+
+  return limitBlocks(blocks, MAX_BLOCKS);
+}
+
+export function formatDigestText(title: string, entries: DigestEntry[]): string {
+  const sections = Array.from(groupByDomain(entries), ([domain, group]) =>
+    `*${domain}*\n${group.map(formatDigestLine).join("\n")}`
+  );
+  return `*${title}*\n\n${sections.join("\n\n")}`;
+}
+
+// Ephemeral /summaries search results: one section per match with where and when it was shared
+export function buildSearchResultBlocks(query: string, results: ArchivedSummary[]): SlackMessageBlock[] {
+  const heading = results.length > 0
+    ? `🔎 *${query || "最近の要約"}* の検索結果（${results.length}件）`
+    : `🔎 *${query || "最近の要約"}* に一致する要約は見つかりませんでした。`;
+  const blocks: SlackMessageBlock[] = [{ type: "section", text: { type: "mrkdwn", text: heading } }];
+
+  for (const result of results) {
+    const firstLine = result.summary
+      .split("\n")
+      .map(line => line.replace(/^[•\-*]\s*/, "").trim())
+      .find(Boolean);
+    const title = `*<${result.url}|${escapeLinkLabel(truncate(result.title || hostname(result.url), MAX_HEADER_TEXT))}>*`;
+
+    const details = [`<#${result.channel}>`];
+    if (result.user) {
+      details.push(`<@${result.user}>`);
+    }
+    details.push(new Date(result.createdAt).toISOString().slice(0, 10));
+    if (result.permalink) {
+      details.push(`<${result.permalink}|スレッド>`);
+    }
+
+    blocks.push({ type: "divider" });
+    blocks.push({
+      type: "section",
+      text: { type: "mrkdwn", text: firstLine ? `${title}\n${truncate(firstLine, MAX_UNFURL_LINE_TEXT)}` : title }
+    });
+    blocks.push({ type: "context", elements: [{ type: "mrkdwn", text: details.join(" · ") }] });
+  }
+
+  return limitBlocks(blocks, MAX_BLOCKS);
+}
+
+function groupByDomain(entries: DigestEntry[]): Map<string, DigestEntry[]> {
+  const groups = new Map<string, DigestEntry[]>();
+  for (const entry of entries) {
+    const domain = hostname(entry.url);
+    groups.set(domain, [...(groups.get(domain) ?? []), entry]);
+  }
+  return new Map([...groups].sort((a, b) => b[1].length - a[1].length));
+}
+
+// Title link, the TL;DR and a link back to the original thread
+function formatDigestLine(entry: DigestEntry): string {
+  // Entries recorded before structured summaries only have the text
+  const firstLine = entry.tldr ?? entry.summary
+    .split("\n")
+    .map(line => line.replace(/^[•\-*]\s*/, "").trim())
+    .find(Boolean);
+
+  let line = `• *<${entry.url}|${escapeLinkLabel(truncate(entry.title || hostname(entry.url), MAX_HEADER_TEXT))}>*`;
+  if (firstLine) {
+    line += ` — ${truncate(firstLine, MAX_UNFURL_LINE_TEXT)}`;
+  }
+  if (entry.permalink) {
+    line += ` (<${entry.permalink}|スレッド>)`;
+  }
+  return line;
+}
+
+function formatFailures(outcomes: UrlSummaryOutcome[], includeHints: boolean): string | undefined {
+  const failures = outcomes.filter((outcome): outcome is UrlSummaryFailure => !outcome.ok);
+  if (failures.length === 0) {
+    return undefined;
+  }
+
+  const lines = failures.map(failure => `• <${failure.url}> — ${failure.reason}`);
+  let text = `⚠️ 次のリンクは要約できませんでした:\n${lines.join("\n")}`;
+
+  // Nothing could be summarized, so explain what usually causes it
+  if (includeHints) {
+    text += `\n\n${ACCESS_HINTS}`;
+  }
+
+  return text;
+}
+
+// Splits on line boundaries so bullets are never cut in the middle
+export function splitMrkdwn(text: string, limit: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const line of text.split("\n")) {
+    // A single line longer than the limit has to be hard-split
+    for (let start = 0; start < Math.max(line.length, 1); start += limit) {
+      const piece = line.slice(start, start + limit);
+      const candidate = current ? `${current}\n${piece}` : piece;
+
+      if (candidate.length > limit) {
+        chunks.push(current);
+        current = piece;
+      } else {
+        current = candidate;
+      }
+    }
+  }
+
+  if (current.trim()) {
+    chunks.push(current);
+  }
+
+  return chunks.filter(chunk => chunk.trim().length > 0);
+}
+
+// Converts summary mrkdwn for use outside Slack
+export function convertMrkdwn(text: string, format: SummaryTextFormat): string {
+  if (format === "mrkdwn") {
+    return text;
+  }
+
+  if (format === "markdown") {
+    return text
+      .replace(/<([^|>]+)\|([^>]+)>/g, "[$2]($1)")
+      .replace(/<([^|>]+)>/g, "$1")
+      .replace(/(^|[^\w*])\*([^*\n]+)\*(?![\w*])/g, "$1**$2**")
+      .replace(/(^|[^\w~])~([^~\n]+)~(?![\w~])/g, "$1~~$2~~")
+      .replace(/^(\s*)• /gm, "$1- ");
+  }
+
+  return text
+    .replace(/<([^|>]+)\|([^>]+)>/g, "$2 ($1)")
+    .replace(/<([^|>]+)>/g, "$1")
+    .replace(/(^|[^\w*])\*([^*\n]+)\*(?![\w*])/g, "$1$2")
+    .replace(/(^|[^\w_])_([^_\n]+)_(?![\w_])/g, "$1$2")
+    .replace(/(^|[^\w~])~([^~\n]+)~(?![\w~])/g, "$1$2")
+    .replace(/`([^`\n]+)`/g, "$1");
+}
+
+function limitBlocks(blocks: SlackMessageBlock[], max: number): SlackMessageBlock[] {
+  if (blocks.length <= max) {
+    return blocks;
+  }
+
+  const kept = blocks.slice(0, max - 1);
+  kept.push({
+    type: "context",
+    elements: [{ type: "mrkdwn", text: `…表示しきれない ${blocks.length - kept.length} 個のブロックを省略しました` }]
+  });
+  return kept;
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+}
+
+function hostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+// Slack link labels cannot contain the characters used by the <url|label> syntax
+function escapeLinkLabel(label: string): string {
+  return label
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\|/g, "｜");
+}
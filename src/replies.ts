@@ -0,0 +1,90 @@
+import type { SlackFile, SummaryStyle } from "./types";
+
+// Buttons on a summary stay usable for 30 days
+const REPLY_CONTEXT_TTL = 60 * 60 * 24 * 30;
+
+// What the bot needs to know to act on one of its own summary replies
+export interface ReplyContext {
+  urls: string[];
+  // Uploaded files summarized in the same reply
+  files?: SlackFile[];
+  // User who posted the original message; only they (or an admin) may delete the summary
+  poster?: string;
+  language: string;
+  style: SummaryStyle;
+  threadTs?: string;
+  // ts of the user message the reply summarizes, so deleting the reply can update its SourceRecord
+  sourceTs?: string;
+}
+
+// Everything the bot posted in response to one user message, keyed by that message's ts
+export interface SourceRecord {
+  // Reply carrying the summaries; edited in place when the source message changes
+  summaryTs?: string;
+  // Every reply posted for the message (summary and policy notices), removed with it
+  replyTs: string[];
+  urls: string[];
+  // Links already explained in a policy notice, so edits do not repeat it
+  blockedUrls: string[];
+  threadTs: string;
+  // summaryTs is still the "summarizing" placeholder (see progress.ts)
+  pending?: boolean;
+}
+
+function replyKey(channel: string, ts: string): string {
+  return `reply:${channel}:${ts}`;
+}
+
+export async function saveReplyContext(
+  kv: KVNamespace,
+  channel: string,
+  ts: string,
+  context: ReplyContext
+): Promise<void> {
+  await kv.put(replyKey(channel, ts), JSON.stringify(context), { expirationTtl: REPLY_CONTEXT_TTL });
+}
+
+export async function getReplyContext(
+  kv: KVNamespace,
+  channel: string,
+  ts: string
+): Promise<ReplyContext | null> {
+  return kv.get<ReplyContext>(replyKey(channel, ts), "json");
+}
+
+export async function deleteReplyContext(
+  kv: KVNamespace,
+  channel: string,
+  ts: string
+): Promise<void> {
+  await kv.delete(replyKey(channel, ts));
+}
+
+function sourceKey(channel: string, ts: string): string {
+  return `source:${channel}:${ts}`;
+}
+
+export async function saveSourceRecord(
+  kv: KVNamespace,
+  channel: string,
+  ts: string,
+  record: SourceRecord
+): Promise<void> {
+  await kv.put(sourceKey(channel, ts), JSON.stringify(record), { expirationTtl: REPLY_CONTEXT_TTL });
+}
+
+export async function getSourceRecord(
+  kv: KVNamespace,
+  channel: string,
+  ts: string
+): Promise<SourceRecord | null> {
+  return kv.get<SourceRecord>(sourceKey(channel, ts), "json");
+}
+
+export async function deleteSourceRecord(
+  kv: KVNamespace,
+  channel: string,
+  ts: string
+): Promise<void> {
+  await kv.delete(sourceKey(channel, ts));
+}
@@ -0,0 +1,227 @@
+import { languageName } from "./prompt";
+import type { SummaryStyle } from "./types";
+
+export interface ChannelSettings {
+  enabled: boolean;
+  language: string;
+  style: SummaryStyle;
+  // Also show thread replies in the channel (reply_broadcast)
+  broadcast: boolean;
+  // Only summarize when someone mentions the bot
+  mentionOnly: boolean;
+  // When non-empty, only links to these domains (and their subdomains) are summarized
+  allowDomains: string[];
+  denyDomains: string[];
+  // Scheduled digest of the links summarized in this channel
+  digest: DigestFrequency;
+  // Users who also get the digest as a DM
+  digestSubscribers: string[];
+  // Workspace the channel belongs to, saved with the settings so digests post with its token
+  team?: string;
+}
+
+export type DigestFrequency = "off" | "daily" | "weekly";
+
+const DIGEST_FREQUENCIES: DigestFrequency[] = ["off", "daily", "weekly"];
+
+export const DEFAULT_CHANNEL_SETTINGS: ChannelSettings = {
+  enabled: true,
+  language: "ja",
+  style: "standard",
+  broadcast: true,
+  mentionOnly: false,
+  allowDomains: [],
+  denyDomains: [],
+  digest: "off",
+  digestSubscribers: [],
+};
+
+const STYLES: SummaryStyle[] = ["short", "standard", "detailed"];
+
+export const CONFIG_USAGE = `使い方: \`/summarize config [設定]\`
+
+• \`/summarize config\` 現在の設定を表示
+• \`/summarize config on\` / \`off\` このチャンネルでの要約を有効化 / 無効化
+• \`/summarize config lang <code>\` 要約の言語（例: \`ja\`, \`en\`）
+• \`/summarize config style short|standard|detailed\` 要約の長さ
+• \`/summarize config broadcast on|off\` スレッド返信をチャンネルにも表示
+• \`/summarize config mention-only on|off\` メンションされた時だけ要約
+• \`/summarize config allow add|remove <domain>\` 要約するドメインを限定
+• \`/summarize config deny add|remove <domain>\` 要約しないドメイン
+• \`/summarize config digest off|daily|weekly\` リンクまとめを定期投稿
+• \`/summarize config digest dm on|off\` リンクまとめを自分にもDMで受け取る
+• \`/summarize config reset\` 初期設定に戻す`;
+
+const SETTINGS_PREFIX = "channel-settings:";
+
+function settingsKey(channel: string): string {
+  return `${SETTINGS_PREFIX}${channel}`;
+}
+
+export async function getChannelSettings(
+  kv: KVNamespace,
+  channel: string
+): Promise<ChannelSettings> {
+  try {
+    const stored = await kv.get<Partial<ChannelSettings>>(settingsKey(channel), "json");
+    // Merge so settings saved before a field existed still get its default
+    return { ...DEFAULT_CHANNEL_SETTINGS, ...stored };
+  } catch (error) {
+    console.error(`Failed to read settings for ${channel}:`, error);
+    return { ...DEFAULT_CHANNEL_SETTINGS };
+  }
+}
+
+export async function saveChannelSettings(
+  kv: KVNamespace,
+  channel: string,
+  settings: ChannelSettings
+): Promise<void> {
+  await kv.put(settingsKey(channel), JSON.stringify(settings));
+}
+
+// Every channel that has saved settings, e.g. to find the ones with a digest enabled
+export async function listChannelSettings(
+  kv: KVNamespace
+): Promise<Array<{ channel: string; settings: ChannelSettings }>> {
+  const channels: string[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list({ prefix: SETTINGS_PREFIX, cursor });
+    channels.push(...page.keys.map(key => key.name.slice(SETTINGS_PREFIX.length)));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return Promise.all(channels.map(async channel => ({
+    channel,
+    settings: await getChannelSettings(kv, channel)
+  })));
+}
+
+export function isDomainAllowed(url: string, settings: ChannelSettings): boolean {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+
+  const matches = (domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+  if (settings.denyDomains.some(matches)) {
+    return false;
+  }
+  return settings.allowDomains.length === 0 || settings.allowDomains.some(matches);
+}
+
+export interface ConfigCommandResult {
+  settings: ChannelSettings;
+  message: string;
+  changed: boolean;
+}
+
+// Applies "/summarize config ..." arguments to the current settings
+export function applyConfigCommand(
+  current: ChannelSettings,
+  args: string[],
+  userId?: string
+): ConfigCommandResult {
+  const settings: ChannelSettings = {
+    ...current,
+    allowDomains: [...current.allowDomains],
+    denyDomains: [...current.denyDomains],
+    digestSubscribers: [...current.digestSubscribers],
+  };
+  const [name, value, extra] = args.map(arg => arg.toLowerCase());
+
+  const unchanged = (message: string): ConfigCommandResult => ({ settings: current, message, changed: false });
+  const changed = (message: string): ConfigCommandResult => ({ settings, message, changed: true });
+
+  switch (name) {
+    case undefined:
+      return unchanged(formatChannelSettings(current));
+
+    case "on":
+    case "off":
+      settings.enabled = name === "on";
+      return changed(`✅ このチャンネルでの要約を${settings.enabled ? "有効" : "無効"}にしました。`);
+
+    case "lang":
+    case "language":
+      if (!value) return unchanged(CONFIG_USAGE);
+      settings.language = value;
+      return changed(`✅ 要約の言語を ${languageName(value)} に変更しました。`);
+
+    case "style":
+      if (!STYLES.includes(value as SummaryStyle)) return unchanged(CONFIG_USAGE);
+      settings.style = value as SummaryStyle;
+      return changed(`✅ 要約のスタイルを \`${value}\` に変更しました。`);
+
+    case "broadcast":
+    case "mention-only": {
+      const flag = parseOnOff(value);
+      if (flag === undefined) return unchanged(CONFIG_USAGE);
+      if (name === "broadcast") {
+        settings.broadcast = flag;
+      } else {
+        settings.mentionOnly = flag;
+      }
+      return changed(`✅ \`${name}\` を ${flag ? "on" : "off"} にしました。`);
+    }
+
+    case "allow":
+    case "deny": {
+      const domain = extra?.replace(/^https?:\/\//, "").replace(/\/.*$/, "");
+      if ((value !== "add" && value !== "remove") || !domain) return unchanged(CONFIG_USAGE);
+
+      const list = name === "allow" ? settings.allowDomains : settings.denyDomains;
+      const index = list.indexOf(domain);
+      if (value === "add" && index === -1) list.push(domain);
+      if (value === "remove" && index !== -1) list.splice(index, 1);
+
+      return changed(`✅ \`${name}\` リスト: ${list.length > 0 ? list.map(d => `\`${d}\``).join(", ") : "（なし）"}`);
+    }
+
+    case "digest": {
+      if (value === "dm") {
+        const flag = parseOnOff(extra);
+        if (flag === undefined || !userId) return unchanged(CONFIG_USAGE);
+
+        settings.digestSubscribers = settings.digestSubscribers.filter(id => id !== userId);
+        if (flag) settings.digestSubscribers.push(userId);
+        return changed(`✅ リンクまとめのDMを${flag ? "受け取る" : "受け取らない"}ようにしました。`);
+      }
+
+      if (!DIGEST_FREQUENCIES.includes(value as DigestFrequency)) return unchanged(CONFIG_USAGE);
+      settings.digest = value as DigestFrequency;
+      return changed(`✅ リンクまとめを \`${value}\` にしました。`);
+    }
+
+    case "reset":
+      return { settings: { ...DEFAULT_CHANNEL_SETTINGS }, message: "✅ このチャンネルの設定を初期状態に戻しました。", changed: true };
+
+    default:
+      return unchanged(CONFIG_USAGE);
+  }
+}
+
+export function formatChannelSettings(settings: ChannelSettings): string {
+  const list = (domains: string[]) => domains.length > 0 ? domains.map(d => `\`${d}\``).join(", ") : "（なし）";
+
+  return `*このチャンネルの要約設定*
+• 要約: ${settings.enabled ? "有効" : "無効"}
+• 言語: ${languageName(settings.language)} (\`${settings.language}\`)
+• スタイル: \`${settings.style}\`
+• チャンネルにも表示 (broadcast): ${settings.broadcast ? "on" : "off"}
+• メンション時のみ (mention-only): ${settings.mentionOnly ? "on" : "off"}
+• 許可ドメイン: ${list(settings.allowDomains)}
+• 除外ドメイン: ${list(settings.denyDomains)}
+• リンクまとめ (digest): \`${settings.digest}\`（DM購読 ${settings.digestSubscribers.length}人）`;
+}
+
+function parseOnOff(value: string | undefined): boolean | undefined {
+  if (value === "on" || value === "true" || value === "yes") return true;
+  if (value === "off" || value === "false" || value === "no") return false;
+  return undefined;
+}
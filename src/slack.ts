@@ -1,4 +1,4 @@
-import { SlackPostMessageParams } from "./types";
+import { SlackFile, SlackPostMessageParams, SlackResponseUrlParams, SlackUpdateMessageParams } from "./types";
 
 const SIGN_VERSION = 'v0';
 
@@ -68,71 +68,214 @@ export async function slackPostMessage(
   token: string,
   params: SlackPostMessageParams
 ): Promise<any> {
-  const response = await fetch('https://slack.com/api/chat.postMessage', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json; charset=utf-8',
-      'Authorization': `Bearer ${token}`,
-    },
-    body: JSON.stringify({
-      ...params,
-      unfurl_links: false,
-      unfurl_media: false,
-    }),
+  return callSlackApi(token, 'chat.postMessage', postMessageBody(params));
+}
+
+// Summaries already describe the page, so Slack's own unfurls are turned off
+export function postMessageBody(params: SlackPostMessageParams): object {
+  return {
+    ...params,
+    unfurl_links: false,
+    unfurl_media: false,
+  };
+}
+
+export async function slackUpdateMessage(
+  token: string,
+  params: SlackUpdateMessageParams
+): Promise<any> {
+  return callSlackApi(token, 'chat.update', params);
+}
+
+export async function slackDeleteMessage(
+  token: string,
+  channel: string,
+  ts: string
+): Promise<any> {
+  return callSlackApi(token, 'chat.delete', { channel, ts });
+}
+
+export async function slackAddReaction(
+  token: string,
+  channel: string,
+  ts: string,
+  name: string
+): Promise<any> {
+  return callSlackApi(token, 'reactions.add', { channel, timestamp: ts, name });
+}
+
+export async function slackRemoveReaction(
+  token: string,
+  channel: string,
+  ts: string,
+  name: string
+): Promise<any> {
+  return callSlackApi(token, 'reactions.remove', { channel, timestamp: ts, name });
+}
+
+export async function slackGetUserInfo(
+  token: string,
+  user: string
+): Promise<any> {
+  // users.info only accepts form-encoded arguments
+  const response = await fetch(`https://slack.com/api/users.info?user=${encodeURIComponent(user)}`, {
+    headers: { 'Authorization': `Bearer ${token}` },
   });
   
   const data = await response.json() as any;
   
   if (!data.ok) {
     console.error('Slack API error:', data);
-    throw new Error(`Slack postMessage failed: ${data.error}`);
+    throw new Error(`Slack users.info failed: ${data.error}`);
   }
   
-  return data;
+  return data.user;
+}
+
+export async function slackGetThreadReplies(
+  token: string,
+  channel: string,
+  ts: string
+): Promise<any[]> {
+  // conversations.replies only accepts form-encoded arguments
+  const params = new URLSearchParams({ channel, ts, limit: '200' });
+  const response = await fetch(`https://slack.com/api/conversations.replies?${params}`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+  
+  const data = await response.json() as any;
+  
+  if (!data.ok) {
+    console.error('Slack API error:', data);
+    throw new Error(`Slack conversations.replies failed: ${data.error}`);
+  }
+  
+  return data.messages ?? [];
+}
+
+export async function slackGetPermalink(
+  token: string,
+  channel: string,
+  ts: string
+): Promise<string> {
+  // chat.getPermalink only accepts form-encoded arguments
+  const params = new URLSearchParams({ channel, message_ts: ts });
+  const response = await fetch(`https://slack.com/api/chat.getPermalink?${params}`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+  
+  const data = await response.json() as any;
+  
+  if (!data.ok) {
+    console.error('Slack API error:', data);
+    throw new Error(`Slack chat.getPermalink failed: ${data.error}`);
+  }
+  
+  return data.permalink;
 }
 
-export class SlackRateLimiter {
-  private lastMessageTime: Map<string, number> = new Map();
-  private messageQueue: Map<string, Array<() => Promise<void>>> = new Map();
-  private readonly minInterval = 1000; // 1 second between messages per channel
+export async function slackGetFileInfo(
+  token: string,
+  file: string
+): Promise<SlackFile> {
+  // files.info only accepts form-encoded arguments
+  const response = await fetch(`https://slack.com/api/files.info?file=${encodeURIComponent(file)}`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+  
+  const data = await response.json() as any;
+  
+  if (!data.ok) {
+    console.error('Slack API error:', data);
+    throw new Error(`Slack files.info failed: ${data.error}`);
+  }
   
-  async executeWithRateLimit(
-    channel: string,
-    fn: () => Promise<void>
-  ): Promise<void> {
-    const now = Date.now();
-    const lastTime = this.lastMessageTime.get(channel) ?? 0;
-    const timeSinceLastMessage = now - lastTime;
+  return data.file;
+}
+
+// Retries after HTTP 429 for as long as Slack's Retry-After header asks, up to a limit
+const MAX_RATE_LIMIT_RETRIES = 3;
+const MAX_RETRY_AFTER_SECONDS = 30;
+
+export async function callSlackApi(
+  token: string,
+  method: string,
+  body: object
+): Promise<any> {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(`https://slack.com/api/${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(body),
+    });
     
-    if (timeSinceLastMessage >= this.minInterval) {
-      // Can send immediately
-      this.lastMessageTime.set(channel, now);
-      await fn();
-      
-      // Process queue if any
-      const queue = this.messageQueue.get(channel);
-      if (queue && queue.length > 0) {
-        const nextFn = queue.shift();
-        if (nextFn) {
-          setTimeout(() => {
-            this.executeWithRateLimit(channel, nextFn);
-          }, this.minInterval);
-        }
-      }
-    } else {
-      // Need to queue
-      const queue = this.messageQueue.get(channel) ?? [];
-      queue.push(fn);
-      this.messageQueue.set(channel, queue);
-      
-      // Schedule execution
-      const delay = this.minInterval - timeSinceLastMessage;
-      setTimeout(() => {
-        const nextFn = queue.shift();
-        if (nextFn) {
-          this.executeWithRateLimit(channel, nextFn);
-        }
-      }, delay);
+    if (response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+      const retryAfter = Math.min(
+        parseInt(response.headers.get('retry-after') ?? '1', 10) || 1,
+        MAX_RETRY_AFTER_SECONDS
+      );
+      console.warn(`Slack ${method} rate limited, retrying in ${retryAfter}s (attempt ${attempt + 1})`);
+      await sleep(retryAfter * 1000);
+      continue;
     }
+    
+    const data = await response.json() as any;
+    
+    if (!data.ok) {
+      console.error('Slack API error:', data);
+      throw new Error(`Slack ${method} failed: ${data.error}`);
+    }
+    
+    return data;
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export async function slackRespond(
+  responseUrl: string,
+  params: SlackResponseUrlParams
+): Promise<void> {
+  const response = await fetch(responseUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+    body: JSON.stringify(params),
+  });
+  
+  if (!response.ok) {
+    const error = await response.text();
+    console.error('Slack response_url error:', response.status, error);
+    throw new Error(`Slack response_url failed: ${response.status}`);
+  }
+}
+
+// OAuth v2 code exchange; the client credentials go in the Basic auth header, not a bot token
+export async function slackOAuthAccess(
+  clientId: string,
+  clientSecret: string,
+  code: string,
+  redirectUri: string
+): Promise<any> {
+  const response = await fetch('https://slack.com/api/oauth.v2.access', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Authorization': `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+    },
+    body: new URLSearchParams({ code, redirect_uri: redirectUri }),
+  });
+  
+  const data = await response.json() as any;
+  
+  if (!data.ok) {
+    console.error('Slack API error:', data.error);
+    throw new Error(`Slack oauth.v2.access failed: ${data.error}`);
   }
-}
\ No newline at end of file
+  
+  return data;
+}
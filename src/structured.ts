@@ -0,0 +1,195 @@
+import { cleanupForSlack, splitTitleLine } from "./prompt";
+import { SummaryError } from "./errors";
+import type { StructuredSummary, SummaryChapter } from "./types";
+
+const MAX_BULLETS = 10;
+const MAX_KEY_FACTS = 5;
+const MAX_TAGS = 5;
+const MAX_CHAPTERS = 12;
+
+// Rough reading speeds for estimating reading time from extracted text
+const CJK_CHARS_PER_MINUTE = 500;
+const WORDS_PER_MINUTE = 200;
+
+// Parses the JSON the summary prompt asks for. Models sometimes wrap it in a code block,
+// add prose around it or break the JSON slightly, so this repairs what it can and
+// falls back to reading the response as a plain mrkdwn summary.
+export function parseStructuredSummary(text: string): StructuredSummary {
+  const json = extractJsonObject(text);
+
+  if (!json) {
+    // JSON that cannot be repaired was usually cut off at the token limit; as text it would
+    // become a TL;DR of raw JSON, so it is thrown as retryable instead of posted and cached
+    if (/^\s*\{\s*"/.test(text.replace(/```(?:json)?/gi, ""))) {
+      throw new SummaryError("empty_response", "Summary response was incomplete JSON");
+    }
+    console.warn("Summary response was not valid JSON, parsing it as text");
+  }
+
+  const structured = json ? normalizeStructured(json) : parseTextSummary(text);
+
+  if (!structured.tldr && structured.bullets.length === 0) {
+    throw new SummaryError("empty_response", "Summary response contained no summary");
+  }
+
+  return structured;
+}
+
+// TL;DR, bullets, video chapters and quoted key facts as Slack mrkdwn
+export function formatStructuredSummary(structured: StructuredSummary): string {
+  const lines: string[] = [];
+
+  if (structured.tldr) {
+    lines.push(structured.tldr);
+  }
+  lines.push(...structured.bullets.map(bullet => `• ${bullet}`));
+  lines.push(...(structured.chapters ?? []).map(chapter => `\`${chapter.start}\` ${chapter.title}`));
+  lines.push(...structured.keyFacts.map(fact => `> ${fact}`));
+
+  return lines.join("\n");
+}
+
+export function estimateReadingMinutes(text: string): number {
+  const cjk = (text.match(/[぀-ヿ㐀-鿿가-힯]/g) ?? []).length;
+  const words = text.replace(/[぀-ヿ㐀-鿿가-힯]/g, " ").split(/\s+/).filter(Boolean).length;
+
+  return Math.max(1, Math.round(cjk / CJK_CHARS_PER_MINUTE + words / WORDS_PER_MINUTE));
+}
+
+function extractJsonObject(text: string): Record<string, unknown> | undefined {
+  const unfenced = text.replace(/```(?:json)?/gi, "");
+  const start = unfenced.indexOf("{");
+  const end = unfenced.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    return undefined;
+  }
+
+  const candidate = unfenced.slice(start, end + 1);
+  for (const attempt of [candidate, repairJson(candidate)]) {
+    try {
+      const value = JSON.parse(attempt);
+      if (value && typeof value === "object" && !Array.isArray(value)) {
+        return value;
+      }
+    } catch {
+      // Try the next repair
+    }
+  }
+
+  return undefined;
+}
+
+// Fixes the usual slips: raw newlines or tabs inside strings and trailing commas
+function repairJson(text: string): string {
+  let result = "";
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      } else if (char === "\n") {
+        result += "\\n";
+        continue;
+      } else if (char === "\r") {
+        continue;
+      } else if (char === "\t") {
+        result += "\\t";
+        continue;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "," && /^\s*[}\]]/.test(text.slice(i + 1))) {
+      continue;
+    }
+
+    result += char;
+  }
+
+  return result;
+}
+
+function normalizeStructured(raw: Record<string, unknown>): StructuredSummary {
+  const bullets = toStringList(raw.bullets, MAX_BULLETS);
+  const tags = toStringList(raw.tags, MAX_TAGS * 2)
+    .map(tag => tag.replace(/^#/, "").replace(/[*_~`]/g, "").trim())
+    .filter(Boolean);
+  const readingTime = Number(raw.readingTimeMinutes ?? raw.reading_time_minutes);
+  const sourceLanguage = toText(raw.sourceLanguage ?? raw.source_language)?.toLowerCase();
+  const chapters = toChapters(raw.chapters);
+
+  return {
+    title: toText(raw.title)?.replace(/^\*(.+)\*$/, "$1"),
+    tldr: toText(raw.tldr ?? raw.summary) ?? "",
+    bullets,
+    keyFacts: toStringList(raw.keyFacts ?? raw.key_facts, MAX_KEY_FACTS),
+    readingTimeMinutes: Number.isFinite(readingTime) && readingTime > 0 ? Math.max(1, Math.round(readingTime)) : undefined,
+    tags: Array.from(new Set(tags)).slice(0, MAX_TAGS),
+    sourceLanguage: sourceLanguage && /^[a-z]{2,3}(-[a-z0-9]+)?$/.test(sourceLanguage) ? sourceLanguage : undefined,
+    ...(chapters.length > 0 ? { chapters } : {})
+  };
+}
+
+// Chapters need a usable timestamp; "1:02:03", "01:02" and "[12:34]" are all accepted
+function toChapters(value: unknown): SummaryChapter[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .flatMap((item): SummaryChapter[] => {
+      if (!item || typeof item !== "object") return [];
+      const raw = item as Record<string, unknown>;
+      const start = String(raw.start ?? raw.time ?? raw.timestamp ?? "").replace(/[\[\]()]/g, "").trim();
+      const title = toText(raw.title ?? raw.summary);
+      if (!title || !/^\d{1,2}(:\d{2}){1,2}$/.test(start)) return [];
+      return [{ start: start.replace(/^0(\d:)/, "$1"), title: stripBullet(title) }];
+    })
+    .slice(0, MAX_CHAPTERS);
+}
+
+// Responses in the old "*title*\n• bullet" format: the first line becomes the TL;DR
+function parseTextSummary(text: string): StructuredSummary {
+  const { title, body } = splitTitleLine(cleanupForSlack(text));
+  const lines = body
+    .split("\n")
+    .map(stripBullet)
+    .filter(Boolean);
+
+  return {
+    title,
+    tldr: lines[0] ?? "",
+    bullets: lines.slice(1, MAX_BULLETS + 1),
+    keyFacts: [],
+    tags: []
+  };
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return undefined;
+  }
+  const text = cleanupForSlack(String(value));
+  return text || undefined;
+}
+
+function toStringList(value: unknown, max: number): string[] {
+  const items = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return items
+    .map(item => toText(item))
+    .filter((item): item is string => !!item)
+    .map(stripBullet)
+    .filter(Boolean)
+    .slice(0, max);
+}
+
+function stripBullet(line: string): string {
+  return line.trim().replace(/^(?:[•・\-]|\*(?=\s))\s*/, "").replace(/^>\s*/, "").trim();
+}
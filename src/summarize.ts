@@ -0,0 +1,366 @@
+import { PROMPT_VERSION } from "./prompt";
+import type { SummarizationProvider, SummaryRequest } from "./provider";
+import { buildSummaryCacheKey, getCachedSummary, parseSummaryCacheTtl, putCachedSummary } from "./cache";
+import { fetchPage, PageFetchError } from "./fetch-page";
+import { detectMediaKind, summarizePdfUrl, summarizeSocialPost, summarizeYouTubeVideo } from "./media";
+import { extractArticle, MAX_TEXT_LENGTH } from "./readability";
+import { getUrlPolicy, UrlPolicy } from "./policy";
+import { fileUrl, getMaxFileBytes, loadSlackFile, SlackFileError } from "./files";
+import { estimateReadingMinutes } from "./structured";
+import { describeSummaryError, isRetryable, SummaryError } from "./errors";
+import { applyBudget, BudgetExceededError, describeLimitReason, recordUsage } from "./usage";
+import type { LimitReason, UsageScope } from "./usage";
+import type { Env, PageContent, SlackFile, SummaryResult, SummaryStyle } from "./types";
+
+// How many URLs from one message are summarized at the same time
+const DEFAULT_CONCURRENCY = 3;
+
+// Extracted text shorter than this is most likely a login wall or an empty shell page
+const MIN_EXTRACTED_LENGTH = 200;
+
+export interface SummarizeOptions {
+  language?: string;
+  style?: SummaryStyle;
+  // Skip the cache lookup and overwrite any cached entry
+  refresh?: boolean;
+  // Who the tokens are billed to; budgets are only enforced when set
+  usage?: UsageScope;
+  // Queue jobs throw transient provider failures so the whole job is retried;
+  // without a queue nothing would retry it, so the failure is reported per item instead
+  throwRetryable?: boolean;
+}
+
+export interface UrlSummarySuccess {
+  url: string;
+  ok: true;
+  result: SummaryResult;
+}
+
+export interface UrlSummaryFailure {
+  url: string;
+  ok: false;
+  reason: string;
+  error: unknown;
+}
+
+export type UrlSummaryOutcome = UrlSummarySuccess | UrlSummaryFailure;
+
+export async function summarizeUrl(
+  url: string,
+  provider: SummarizationProvider,
+  env: Env,
+  options: SummarizeOptions = {},
+  // Set by summarizeUrls when a budget is exhausted: cached summaries are still served
+  budgetExceeded?: LimitReason
+): Promise<SummaryResult> {
+  return withSummaryCache(url, provider, env, options, budgetExceeded, request =>
+    summarizeByMediaKind(url, provider, env, request)
+  );
+}
+
+// Summarizes a file uploaded to Slack; cached by the file's permalink like a URL
+export async function summarizeSlackFile(
+  file: SlackFile,
+  provider: SummarizationProvider,
+  env: Env,
+  options: SummarizeOptions = {},
+  budgetExceeded?: LimitReason
+): Promise<SummaryResult> {
+  return withSummaryCache(fileUrl(file), provider, env, options, budgetExceeded, async request => {
+    const content = await loadSlackFile(env.SLACK_BOT_TOKEN, file, getMaxFileBytes(env));
+
+    if (content.kind === "inline") {
+      if (!provider.summarizeFile) {
+        throw new SlackFileError(file.id, "unsupported_provider", `${provider.name} cannot read ${content.file.mimeType} files`);
+      }
+      // PDFs are the only inline type; they get page-aware bullets
+      return provider.summarizeFile(content.file, { ...request, media: "document" });
+    }
+
+    const result = withReadingTime(await provider.summarizeContent(content.page, request), content.page);
+    // The model's title usually reads better than the file name
+    return { ...result, title: result.structured.title ?? result.title, source: "file" };
+  });
+}
+
+async function withSummaryCache(
+  url: string,
+  provider: SummarizationProvider,
+  env: Env,
+  options: SummarizeOptions,
+  budgetExceeded: LimitReason | undefined,
+  summarize: (request: SummaryRequest) => Promise<SummaryResult>
+): Promise<SummaryResult> {
+  const { language = "ja", style = "standard", refresh = false } = options;
+  // Different providers can share a model name, so both go into the cache key
+  const model = `${provider.name}:${provider.model}`;
+  const ttl = parseSummaryCacheTtl(env.SUMMARY_CACHE_TTL);
+  const cacheEnabled = ttl > 0 && !!env.DEDUP;
+
+  const cacheKey = cacheEnabled
+    ? await buildSummaryCacheKey({ url, model, language, style, promptVersion: PROMPT_VERSION })
+    : undefined;
+
+  if (cacheKey && !refresh) {
+    const cached = await getCachedSummary(env.DEDUP, cacheKey);
+    if (cached) {
+      console.log(`Summary cache hit: ${url} (${cacheKey})`);
+      return { ...cached, usage: undefined, cached: true };
+    }
+    console.log(`Summary cache miss: ${url} (${cacheKey})`);
+  } else if (cacheKey) {
+    console.log(`Summary cache bypassed (refresh): ${url} (${cacheKey})`);
+  }
+
+  if (budgetExceeded) {
+    throw new BudgetExceededError(budgetExceeded);
+  }
+
+  const result = await summarize({ language, style });
+
+  if (cacheKey) {
+    await putCachedSummary(env.DEDUP, cacheKey, result, ttl);
+  }
+
+  return { ...result, cached: false };
+}
+
+// Videos, PDFs and social posts each have their own handler (see media.ts)
+async function summarizeByMediaKind(
+  url: string,
+  provider: SummarizationProvider,
+  env: Env,
+  request: SummaryRequest
+): Promise<SummaryResult> {
+  const kind = detectMediaKind(url);
+  if (kind !== "article") {
+    console.log(`Summarizing ${url} as ${kind}`);
+  }
+
+  switch (kind) {
+    case "video":
+      return summarizeYouTubeVideo(url, provider, request, () => summarizeWithFallback(url, provider, env, request));
+    case "document":
+      return summarizePdfUrl(url, provider, request, getMaxFileBytes(env), getUrlPolicy(env));
+    case "social":
+      return summarizeSocialPost(url, provider, request);
+    default:
+      return summarizeWithFallback(url, provider, env, request);
+  }
+}
+
+// Lets the provider read the URL itself when it can, and falls back to
+// fetching and extracting the page ourselves
+async function summarizeWithFallback(
+  url: string,
+  provider: SummarizationProvider,
+  env: Env,
+  request: SummaryRequest
+): Promise<SummaryResult> {
+  if (!provider.summarizeUrl) {
+    return summarizeFetchedPage(url, provider, env, request);
+  }
+
+  try {
+    return await provider.summarizeUrl(url, request);
+  } catch (error) {
+    // Paywalled and unsafe pages would not get any better by fetching them ourselves
+    if (!(error instanceof SummaryError) || error.reason !== "fetch_blocked") {
+      throw error;
+    }
+
+    console.log(`URLContext could not fetch ${url} (${error.details.status}), falling back to direct fetch`);
+    return summarizeFetchedPage(url, provider, env, request, error);
+  }
+}
+
+// retrievalError is rethrown when our own fetch finds no more text than URLContext did
+async function summarizeFetchedPage(
+  url: string,
+  provider: SummarizationProvider,
+  env: Env,
+  request: SummaryRequest,
+  retrievalError?: SummaryError
+): Promise<SummaryResult> {
+  let page: PageContent;
+  try {
+    page = await fetchPageContent(url, getUrlPolicy(env));
+  } catch (error) {
+    // Links without a .pdf extension are only recognized as PDFs once fetched
+    if (error instanceof PageFetchError && error.contentType === "application/pdf") {
+      console.log(`${url} is a PDF, summarizing it as a document`);
+      return summarizePdfUrl(url, provider, request, getMaxFileBytes(env), getUrlPolicy(env));
+    }
+    throw error;
+  }
+
+  if (retrievalError && page.text.length < MIN_EXTRACTED_LENGTH) {
+    throw retrievalError;
+  }
+
+  return withReadingTime(await provider.summarizeContent(page, request), page);
+}
+
+// The extracted text gives a better reading time than the model's guess
+function withReadingTime(result: SummaryResult, page: PageContent): SummaryResult {
+  if (page.text.length < MIN_EXTRACTED_LENGTH) {
+    return result;
+  }
+  return {
+    ...result,
+    structured: { ...result.structured, readingTimeMinutes: estimateReadingMinutes(page.text) }
+  };
+}
+
+async function fetchPageContent(url: string, policy: UrlPolicy): Promise<PageContent> {
+  const page = await fetchPage(url, { policy });
+  const article = page.contentType === "text/plain"
+    ? { text: page.body.trim().slice(0, MAX_TEXT_LENGTH), title: undefined, siteName: undefined, publishedAt: undefined }
+    : extractArticle(page.body);
+
+  if (article.text.length < MIN_EXTRACTED_LENGTH) {
+    console.warn(`Extracted only ${article.text.length} chars from ${page.url}`);
+  }
+
+  return {
+    url,
+    text: article.text,
+    title: article.title,
+    siteName: article.siteName,
+    publishedAt: article.publishedAt
+  };
+}
+
+// Summarizes each URL on its own so one failing page does not hide the others
+export async function summarizeUrls(
+  urls: string[],
+  provider: SummarizationProvider,
+  env: Env,
+  options: SummarizeOptions = {}
+): Promise<UrlSummaryOutcome[]> {
+  return summarizeBatch(urls, url => url, provider, env, options, (url, budgetProvider, budgetExceeded) =>
+    summarizeUrl(url, budgetProvider, env, options, budgetExceeded)
+  );
+}
+
+// Files get the same per-item outcomes as URLs, keyed by their permalink
+export async function summarizeSlackFiles(
+  files: SlackFile[],
+  provider: SummarizationProvider,
+  env: Env,
+  options: SummarizeOptions = {}
+): Promise<UrlSummaryOutcome[]> {
+  return summarizeBatch(files, fileUrl, provider, env, options, (file, budgetProvider, budgetExceeded) =>
+    summarizeSlackFile(file, budgetProvider, env, options, budgetExceeded)
+  );
+}
+
+async function summarizeBatch<T>(
+  items: T[],
+  urlOf: (item: T) => string,
+  provider: SummarizationProvider,
+  env: Env,
+  options: SummarizeOptions,
+  summarize: (item: T, provider: SummarizationProvider, budgetExceeded?: LimitReason) => Promise<SummaryResult>
+): Promise<UrlSummaryOutcome[]> {
+  const concurrency = parseInt(env.SUMMARY_CONCURRENCY ?? "", 10) || DEFAULT_CONCURRENCY;
+  const scope = options.usage;
+  // Each summary's usage is recorded as soon as it finishes, one after another so parallel
+  // summaries do not race on the same counters
+  let recorded = Promise.resolve();
+
+  const outcomes = await mapWithConcurrency(items, concurrency, async (item): Promise<UrlSummaryOutcome> => {
+    const url = urlOf(item);
+    try {
+      // Checked per item, so a message with many links stops at the limit instead of going
+      // far past it; only the summaries already running when it is reached can overshoot
+      await recorded;
+      const budget = scope ? await applyBudget(env, provider, scope) : { provider };
+
+      const result = await summarize(item, budget.provider, budget.blocked);
+
+      if (scope && result.usage) {
+        const call = { model: result.model ?? budget.provider.model, usage: result.usage };
+        recorded = recorded.then(() => recordUsage(env, scope, [call]));
+      }
+      return { url, ok: true, result };
+    } catch (error) {
+      console.error(`Failed to summarize ${url}:`, error);
+      return { url, ok: false, reason: describeSummaryFailure(error), error };
+    }
+  });
+  await recorded;
+
+  // Thrown after usage is recorded; the summaries that did succeed come back from the summary cache on retry
+  if (options.throwRetryable) {
+    const retryable = outcomes.find((outcome): outcome is UrlSummaryFailure => !outcome.ok && isRetryable(outcome.error));
+    if (retryable) {
+      throw retryable.error;
+    }
+  }
+
+  return outcomes;
+}
+
+export function describeSummaryFailure(error: unknown): string {
+  if (error instanceof BudgetExceededError) {
+    return describeLimitReason(error.reason);
+  }
+  if (error instanceof SummaryError) {
+    return describeSummaryError(error.reason);
+  }
+  if (error instanceof SlackFileError) {
+    switch (error.reason) {
+      case "too_large":
+        return "ファイルが大きすぎるため要約できませんでした";
+      case "unsupported_type":
+        return "対応していない形式のファイルです";
+      case "unsupported_provider":
+        return "現在の要約プロバイダはこの形式のファイルに対応していません";
+      case "no_text":
+        return "ファイルから本文を読み取れませんでした";
+      default:
+        return "ファイルをダウンロードできませんでした（files:read スコープが必要です）";
+    }
+  }
+  if (error instanceof PageFetchError) {
+    switch (error.reason) {
+      case "http_error":
+        return `ページを取得できませんでした（HTTP ${error.status}）`;
+      case "unsupported_type":
+        return error.contentType === "application/pdf"
+          ? "現在の要約プロバイダはPDFに対応していません"
+          : "対応していない形式のファイルです";
+      case "too_large":
+        return "ファイルが大きすぎるため要約できませんでした";
+      case "timeout":
+        return "ページの取得がタイムアウトしました";
+      case "blocked_redirect":
+        return "リダイレクト先がセキュリティポリシーによりブロックされました";
+      default:
+        return "ページを取得できませんでした";
+    }
+  }
+  return "要約中にエラーが発生しました";
+}
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker);
+  await Promise.all(workers);
+
+  return results;
+}
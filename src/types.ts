@@ -1,10 +1,57 @@
+import type { SummaryJob } from "./jobs";
+
 export interface Env {
   SLACK_SIGNING_SECRET: string;
+  // Token of the workspace the app was set up in; workspaces installed through OAuth
+  // use their own stored token instead (see installations.ts)
   SLACK_BOT_TOKEN: string;
+  // Team ID SLACK_BOT_TOKEN belongs to. Required for the token to be used once OAuth is configured
+  SLACK_TEAM_ID?: string;
+  // OAuth v2 install flow for other workspaces (see oauth.ts); /slack/install is disabled without them
+  SLACK_CLIENT_ID?: string;
+  SLACK_CLIENT_SECRET?: string;
+  // Defaults to /slack/oauth/callback on the worker's own origin
+  SLACK_OAUTH_REDIRECT_URL?: string;
   GEMINI_API_KEY: string;
   GEMINI_BASE_URL?: string;
   GEMINI_MODEL?: string;
+  // "gemini" (default), "openai" for any OpenAI-compatible API, or "mock" for offline runs
+  SUMMARY_PROVIDER?: string;
+  OPENAI_API_KEY?: string;
+  OPENAI_BASE_URL?: string;
+  OPENAI_MODEL?: string;
+  // Comma-separated hosts whose links are never summarized (e.g. the worker's own domain)
+  IGNORE_URL_HOSTS?: string;
+  // URL safety policy (see policy.ts); comma-separated host patterns and parameter names
+  URL_POLICY_BLOCKED_HOSTS?: string;
+  URL_POLICY_ALLOWED_HOSTS?: string;
+  URL_POLICY_SENSITIVE_PARAMS?: string;
+  URL_POLICY_SENSITIVE_ACTION?: "redact" | "block";
+  // Seconds to keep per-URL summaries in KV (0 disables the cache)
+  SUMMARY_CACHE_TTL?: string;
+  // Maximum number of URLs summarized in parallel for one message
+  SUMMARY_CONCURRENCY?: string;
   DEDUP: KVNamespace;
+  // Per-channel Slack API rate limiter (see rate-limiter.ts); calls go direct when unbound
+  SLACK_RATE_LIMITER?: DurableObjectNamespace;
+  // Queue for Slack event jobs (see jobs.ts); events are processed inline when unbound
+  SUMMARY_QUEUE?: Queue<SummaryJob>;
+  // How link_shared events are answered: "unfurl" (default, chat.unfurl) or "thread" (thread reply)
+  LINK_SHARED_MODE?: string;
+  // Comma-separated App Unfurl Domains; in unfurl mode the message path leaves links on them to link_shared
+  UNFURL_DOMAINS?: string;
+  // D1 archive of posted summaries (see archive.ts); archiving is skipped when unbound
+  ARCHIVE?: D1Database;
+  // Largest Slack file upload or linked PDF the bot downloads for summarizing, in bytes
+  SLACK_FILE_MAX_BYTES?: string;
+  // Comma-separated keys accepted by the JSON API endpoints (see auth.ts)
+  API_KEYS?: string;
+  // Token budgets (see usage.ts); unset or 0 means unlimited
+  USAGE_DAILY_USER_TOKENS?: string;
+  USAGE_DAILY_CHANNEL_TOKENS?: string;
+  USAGE_MONTHLY_TOKENS?: string;
+  // Cheaper model used once a budget is exhausted; without it requests are refused
+  USAGE_FALLBACK_MODEL?: string;
 }
 
 export interface SlackEventEnvelope {
@@ -15,6 +62,8 @@ export interface SlackEventEnvelope {
   team_id?: string;
   api_app_id?: string;
   event?: SlackEvent;
+  // The installation the event was delivered to
+  authorizations?: Array<{ team_id?: string; enterprise_id?: string; user_id?: string; is_bot?: boolean }>;
 }
 
 export interface SlackEvent {
@@ -29,10 +78,41 @@ export interface SlackEvent {
   bot_id?: string;
   blocks?: SlackBlock[];
   event_ts?: string;
-  previous_message?: any;
+  // For message_changed events: the message before the edit
+  previous_message?: SlackEvent;
+  // For message_changed events: the message after the edit
+  message?: SlackEvent;
+  // For message_deleted events
+  deleted_ts?: string;
   // For link_shared events
   links?: Array<{ url: string; domain: string }>;
   message_ts?: string;
+  // Set when the link is still in the message composer (source "composer")
+  unfurl_id?: string;
+  source?: "composer" | "conversations_history";
+  // Whether the bot is in the channel, i.e. also receives the message event
+  is_bot_user_member?: boolean;
+  // Files uploaded with the message (subtype "file_share")
+  files?: SlackFile[];
+  // For tokens_revoked events: the user IDs whose tokens were revoked
+  tokens?: { oauth?: string[]; bot?: string[] };
+}
+
+// The fields of a Slack file object the bot uses
+export interface SlackFile {
+  id: string;
+  name?: string;
+  title?: string;
+  mimetype?: string;
+  filetype?: string;
+  size?: number;
+  // "hosted" for uploads; external (Google Drive etc.) and deleted files cannot be downloaded
+  mode?: string;
+  url_private?: string;
+  url_private_download?: string;
+  permalink?: string;
+  // "check_file_info" when the event omits the details and files.info has to be called
+  file_access?: string;
 }
 
 export interface SlackBlock {
@@ -52,9 +132,183 @@ export interface SlackElement {
   text?: string;
 }
 
+export interface SlackTextObject {
+  type: "plain_text" | "mrkdwn";
+  text: string;
+  emoji?: boolean;
+}
+
+// Block Kit layout blocks the bot posts (incoming rich_text blocks use SlackBlock)
+export type SlackMessageBlock =
+  | { type: "header"; text: SlackTextObject; block_id?: string }
+  | { type: "section"; text: SlackTextObject; block_id?: string }
+  | { type: "context"; elements: SlackTextObject[]; block_id?: string }
+  | { type: "divider"; block_id?: string }
+  | { type: "actions"; elements: SlackInteractiveElement[]; block_id?: string };
+
+export interface SlackOption {
+  text: SlackTextObject;
+  value: string;
+}
+
+export interface SlackConfirmDialog {
+  title: SlackTextObject;
+  text: SlackTextObject;
+  confirm: SlackTextObject;
+  deny: SlackTextObject;
+  style?: "primary" | "danger";
+}
+
+export type SlackInteractiveElement =
+  | {
+      type: "button";
+      action_id: string;
+      text: SlackTextObject;
+      value?: string;
+      style?: "primary" | "danger";
+      confirm?: SlackConfirmDialog;
+    }
+  | {
+      type: "static_select";
+      action_id: string;
+      placeholder: SlackTextObject;
+      options: SlackOption[];
+    };
+
 export interface SlackPostMessageParams {
   channel: string;
+  // Notification and accessibility fallback when blocks are present
   text: string;
+  blocks?: SlackMessageBlock[];
   thread_ts?: string;
   reply_broadcast?: boolean;
-}
\ No newline at end of file
+}
+
+export type SummaryStyle = "short" | "standard" | "detailed";
+
+// Form-encoded payload sent by Slack to slash command endpoints
+export interface SlackSlashCommandPayload {
+  command: string;
+  text: string;
+  response_url: string;
+  trigger_id?: string;
+  user_id: string;
+  user_name?: string;
+  channel_id: string;
+  channel_name?: string;
+  team_id?: string;
+}
+
+// chat.unfurl takes either channel + ts, or unfurl_id + source for composer previews
+export interface SlackUnfurlParams {
+  channel?: string;
+  ts?: string;
+  unfurl_id?: string;
+  source?: "composer" | "conversations_history";
+  // Keyed by the URL exactly as it appeared in the link_shared event
+  unfurls: Record<string, { blocks: SlackMessageBlock[] }>;
+}
+
+export interface SlackUpdateMessageParams {
+  channel: string;
+  ts: string;
+  text: string;
+  blocks?: SlackMessageBlock[];
+  // Broadcasts an existing thread reply to the channel
+  reply_broadcast?: boolean;
+}
+
+// Payload posted to the interactivity endpoint when a user clicks a button or picks an option
+export interface SlackInteractionPayload {
+  type: string;
+  user: { id: string; username?: string; team_id?: string };
+  team?: { id: string; domain?: string };
+  channel?: { id: string; name?: string };
+  container?: { type: string; message_ts?: string; channel_id?: string; is_ephemeral?: boolean };
+  message?: { ts: string; thread_ts?: string; text?: string };
+  response_url?: string;
+  trigger_id?: string;
+  actions?: SlackInteractionAction[];
+}
+
+export interface SlackInteractionAction {
+  type: string;
+  action_id: string;
+  block_id?: string;
+  value?: string;
+  selected_option?: SlackOption;
+}
+
+export interface SlackResponseUrlParams {
+  text: string;
+  blocks?: SlackMessageBlock[];
+  response_type?: "ephemeral" | "in_channel";
+  replace_original?: boolean;
+  delete_original?: boolean;
+}
+
+export interface SummaryResult {
+  // Slack mrkdwn rendering of structured, for plain-text fallbacks, digests and the archive
+  summary: string;
+  structured: StructuredSummary;
+  language?: string;
+  // Whether this result was served from the summary cache
+  cached?: boolean;
+  url?: string;
+  title?: string;
+  // How the page content was obtained
+  source?: "url_context" | "fetched" | "file" | "video";
+  // Provider and model that produced the summary
+  provider?: string;
+  model?: string;
+  // Tokens used to produce this result; absent for cached results and providers that do not report it
+  usage?: TokenUsage;
+}
+
+// Summary fields parsed from the model's JSON output (see structured.ts); text uses Slack mrkdwn
+export interface StructuredSummary {
+  title?: string;
+  // One-sentence summary
+  tldr: string;
+  bullets: string[];
+  // Notable quotes and figures from the page
+  keyFacts: string[];
+  readingTimeMinutes?: number;
+  // Short topic keywords
+  tags: string[];
+  // Language the page is written in, e.g. "en"
+  sourceLanguage?: string;
+  // Timestamped chapters, only for videos
+  chapters?: SummaryChapter[];
+}
+
+export interface SummaryChapter {
+  // Position in the video as "m:ss" or "h:mm:ss"
+  start: string;
+  title: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+// A file handed to the model as-is (e.g. a PDF sent to Gemini as inline_data)
+export interface FileInput {
+  // Link back to the file in Slack
+  url: string;
+  name: string;
+  mimeType: string;
+  // Base64-encoded file contents
+  data: string;
+}
+
+// Page text extracted by our own fetcher, summarized without URLContext
+export interface PageContent {
+  url: string;
+  text: string;
+  title?: string;
+  siteName?: string;
+  publishedAt?: string;
+}
@@ -0,0 +1,258 @@
+import { createSummarizationProvider } from "./provider";
+import type { SummarizationProvider } from "./provider";
+import type { Env, TokenUsage } from "./types";
+
+// Who a provider call is billed to
+export interface UsageScope {
+  team?: string;
+  channel?: string;
+  user?: string;
+}
+
+export interface UsageCounter {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  requests: number;
+}
+
+export interface UsageLimits {
+  // 0 means unlimited
+  dailyUserTokens: number;
+  dailyChannelTokens: number;
+  monthlyTokens: number;
+  // Cheaper model used once a limit is reached; without it the request is refused
+  fallbackModel?: string;
+}
+
+export type LimitReason = "user_daily" | "channel_daily" | "monthly";
+
+export type BudgetDecision =
+  | { status: "ok" }
+  | { status: "fallback"; reason: LimitReason; model: string }
+  | { status: "blocked"; reason: LimitReason };
+
+export class BudgetExceededError extends Error {
+  constructor(public readonly reason: LimitReason) {
+    super(`Usage limit reached (${reason})`);
+    this.name = "BudgetExceededError";
+  }
+}
+
+// Day counters are kept a little over a month, monthly counters a little over a year
+const DAY_COUNTER_TTL = 60 * 60 * 24 * 40;
+const MONTH_COUNTER_TTL = 60 * 60 * 24 * 400;
+
+// Month and model counters belong to a workspace; API requests are not tied to one and share this bucket
+const NO_TEAM = "api";
+
+const EMPTY_COUNTER: UsageCounter = { inputTokens: 0, outputTokens: 0, totalTokens: 0, requests: 0 };
+
+const LIMIT_MESSAGES: Record<LimitReason, string> = {
+  user_daily: "今日の利用上限に達したため要約できませんでした。明日また試してください",
+  channel_daily: "このチャンネルの今日の利用上限に達したため要約できませんでした",
+  monthly: "今月の利用上限に達したため要約できませんでした。管理者にお問い合わせください",
+};
+
+export function getUsageLimits(env: Env): UsageLimits {
+  const limit = (value: string | undefined) => Math.max(parseInt(value ?? "", 10) || 0, 0);
+
+  return {
+    dailyUserTokens: limit(env.USAGE_DAILY_USER_TOKENS),
+    dailyChannelTokens: limit(env.USAGE_DAILY_CHANNEL_TOKENS),
+    monthlyTokens: limit(env.USAGE_MONTHLY_TOKENS),
+    fallbackModel: env.USAGE_FALLBACK_MODEL || undefined,
+  };
+}
+
+export function describeLimitReason(reason: LimitReason): string {
+  return LIMIT_MESSAGES[reason];
+}
+
+function dayKey(day: string, dimension: string, id: string): string {
+  return `usage:${day}:${dimension}:${id}`;
+}
+
+function monthKey(month: string, team: string | undefined): string {
+  return `usage:month:${month}:team:${team ?? NO_TEAM}`;
+}
+
+function modelPrefix(day: string, team: string | undefined): string {
+  return `${dayKey(day, "model", team ?? NO_TEAM)}:`;
+}
+
+export function usageDay(time = Date.now()): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function usageMonth(time = Date.now()): string {
+  return new Date(time).toISOString().slice(0, 7);
+}
+
+async function getCounter(kv: KVNamespace, key: string): Promise<UsageCounter> {
+  return (await kv.get<UsageCounter>(key, "json")) ?? { ...EMPTY_COUNTER };
+}
+
+export async function checkBudget(env: Env, scope: UsageScope): Promise<BudgetDecision> {
+  const limits = getUsageLimits(env);
+  const day = usageDay();
+
+  const checks: Array<[LimitReason, number, string | undefined]> = [
+    ["monthly", limits.monthlyTokens, monthKey(usageMonth(), scope.team)],
+    ["channel_daily", limits.dailyChannelTokens, scope.channel && dayKey(day, "channel", scope.channel)],
+    ["user_daily", limits.dailyUserTokens, scope.user && dayKey(day, "user", scope.user)],
+  ];
+
+  for (const [reason, limit, key] of checks) {
+    if (!limit || !key) continue;
+
+    const counter = await getCounter(env.DEDUP, key);
+    if (counter.totalTokens >= limit) {
+      console.warn(`Usage limit ${reason} reached for`, scope, `(${counter.totalTokens}/${limit} tokens)`);
+      return limits.fallbackModel
+        ? { status: "fallback", reason, model: limits.fallbackModel }
+        : { status: "blocked", reason };
+    }
+  }
+
+  return { status: "ok" };
+}
+
+// Swaps in the fallback model when a limit is reached; returns the reason when the request must be refused
+export async function applyBudget(
+  env: Env,
+  provider: SummarizationProvider,
+  scope: UsageScope
+): Promise<{ provider: SummarizationProvider; blocked?: LimitReason }> {
+  const decision = await checkBudget(env, scope);
+
+  if (decision.status === "blocked") {
+    return { provider, blocked: decision.reason };
+  }
+  if (decision.status === "fallback" && decision.model !== provider.model) {
+    console.log(`Falling back to ${decision.model} (${decision.reason})`);
+    return { provider: createSummarizationProvider(env, { model: decision.model }) };
+  }
+  return { provider };
+}
+
+// Adds token usage to the per-team, channel, user, model and month counters; model and month are per team.
+// KV has no atomic increments, so concurrent jobs can undercount slightly; limits are approximate.
+export async function recordUsage(
+  env: Env,
+  scope: UsageScope,
+  calls: Array<{ model: string; usage: TokenUsage }>
+): Promise<void> {
+  if (calls.length === 0) {
+    return;
+  }
+
+  try {
+    const now = Date.now();
+    const day = usageDay(now);
+    const byKey = new Map<string, { counter: UsageCounter; ttl: number }>();
+
+    const add = (key: string, ttl: number, usage: TokenUsage) => {
+      const entry = byKey.get(key) ?? { counter: { ...EMPTY_COUNTER }, ttl };
+      entry.counter.inputTokens += usage.inputTokens;
+      entry.counter.outputTokens += usage.outputTokens;
+      entry.counter.totalTokens += usage.totalTokens;
+      entry.counter.requests += 1;
+      byKey.set(key, entry);
+    };
+
+    for (const { model, usage } of calls) {
+      add(monthKey(usageMonth(now), scope.team), MONTH_COUNTER_TTL, usage);
+      add(modelPrefix(day, scope.team) + model, DAY_COUNTER_TTL, usage);
+      if (scope.team) add(dayKey(day, "team", scope.team), DAY_COUNTER_TTL, usage);
+      if (scope.channel) add(dayKey(day, "channel", scope.channel), DAY_COUNTER_TTL, usage);
+      if (scope.user) add(dayKey(day, "user", scope.user), DAY_COUNTER_TTL, usage);
+    }
+
+    await Promise.all(Array.from(byKey, async ([key, { counter, ttl }]) => {
+      const current = await getCounter(env.DEDUP, key);
+      const updated: UsageCounter = {
+        inputTokens: current.inputTokens + counter.inputTokens,
+        outputTokens: current.outputTokens + counter.outputTokens,
+        totalTokens: current.totalTokens + counter.totalTokens,
+        requests: current.requests + counter.requests,
+      };
+      await env.DEDUP.put(key, JSON.stringify(updated), { expirationTtl: ttl });
+    }));
+
+    const total = calls.reduce((sum, call) => sum + call.usage.totalTokens, 0);
+    console.log(`Recorded ${total} tokens for`, scope);
+  } catch (error) {
+    console.error("Failed to record usage:", error);
+  }
+}
+
+// monthly and models cover scope.team only, or API requests when no team is given
+export interface UsageReport {
+  date: string;
+  month: string;
+  monthly: UsageCounter & { limit: number };
+  team?: UsageCounter;
+  channel?: UsageCounter & { limit: number };
+  user?: UsageCounter & { limit: number };
+  models: Record<string, UsageCounter>;
+}
+
+export async function getUsageReport(
+  env: Env,
+  scope: UsageScope,
+  date = usageDay()
+): Promise<UsageReport> {
+  const limits = getUsageLimits(env);
+  const month = date.slice(0, 7);
+
+  const prefix = modelPrefix(date, scope.team);
+  const modelKeys: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await env.DEDUP.list({ prefix, cursor });
+    modelKeys.push(...page.keys.map(key => key.name));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  const models: Record<string, UsageCounter> = {};
+  for (const key of modelKeys) {
+    models[key.slice(prefix.length)] = await getCounter(env.DEDUP, key);
+  }
+
+  return {
+    date,
+    month,
+    monthly: { ...(await getCounter(env.DEDUP, monthKey(month, scope.team))), limit: limits.monthlyTokens },
+    team: scope.team ? await getCounter(env.DEDUP, dayKey(date, "team", scope.team)) : undefined,
+    channel: scope.channel
+      ? { ...(await getCounter(env.DEDUP, dayKey(date, "channel", scope.channel))), limit: limits.dailyChannelTokens }
+      : undefined,
+    user: scope.user
+      ? { ...(await getCounter(env.DEDUP, dayKey(date, "user", scope.user))), limit: limits.dailyUserTokens }
+      : undefined,
+    models,
+  };
+}
+
+export function formatUsageReport(report: UsageReport): string {
+  const tokens = (counter: UsageCounter & { limit?: number }) => {
+    const used = `${counter.totalTokens.toLocaleString("en-US")} トークン（${counter.requests}回）`;
+    return counter.limit ? `${used} / 上限 ${counter.limit.toLocaleString("en-US")}` : used;
+  };
+
+  const lines = [`*利用状況* (${report.date}, UTC)`, `• 今月のワークスペース合計 (${report.month}): ${tokens(report.monthly)}`];
+  if (report.team) lines.push(`• ワークスペース: ${tokens(report.team)}`);
+  if (report.channel) lines.push(`• このチャンネル: ${tokens(report.channel)}`);
+  if (report.user) lines.push(`• あなた: ${tokens(report.user)}`);
+
+  const models = Object.entries(report.models);
+  if (models.length > 0) {
+    lines.push("", "*モデル別*");
+    for (const [model, counter] of models) {
+      lines.push(`• \`${model}\`: ${tokens(counter)}`);
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -1,10 +1,61 @@
-import { extractUrlsFromSlackEvent } from "./extract";
-import { verifySlackSignature, slackPostMessage, SlackRateLimiter } from "./slack";
-import { summarizeUrlsWithGemini } from "./gemini";
-import type { Env, SlackEventEnvelope } from "./types";
+import { collectUrls, expandShortUrls, extractUrlsFromSlackEvent, getUnfurlDomains, getUrlFilterOptions, matchesHost } from "./extract";
+import { verifySlackSignature } from "./slack";
+import {
+  deleteMessageRateLimited,
+  postMessageRateLimited,
+  unfurlRateLimited,
+  updateMessageRateLimited
+} from "./rate-limiter";
+import { summarizeSlackFiles, summarizeUrls, UrlSummaryOutcome } from "./summarize";
+import { selectSlackFiles } from "./files";
+import { createSummarizationProvider, SummarizationProvider } from "./provider";
+import {
+  deleteReplyContext,
+  deleteSourceRecord,
+  getReplyContext,
+  getSourceRecord,
+  saveReplyContext,
+  saveSourceRecord
+} from "./replies";
+import { processInteraction } from "./interactions";
+import { answerFollowUpQuestion } from "./followup";
+import { sendScheduledDigests } from "./digest";
+import { recordPostedSummaries } from "./history";
+import { exportArchive, parseDate } from "./archive";
+import { isAuthorizedApiRequest, unauthorizedResponse } from "./auth";
+import { parseSummarizeApiRequest, processSummarizeApiRequest } from "./api";
+import { getUsageReport } from "./usage";
+import { eventTeamId, getTeamEnv, handleUninstallEvent } from "./installations";
+import { handleInstall, handleOAuthCallback } from "./oauth";
+import { FAILED_TEXT, formatPlaceholder, RETRYING_TEXT, setProgressReaction } from "./progress";
+import { buildSummaryBlocks, buildUnfurlBlocks, formatSummaryReply } from "./render";
+import {
+  parseSummarizeCommand,
+  processConfigCommand,
+  processSummariesCommand,
+  processSummarizeCommand,
+  processUsageCommand,
+  SUMMARIZE_USAGE
+} from "./commands";
+import { ChannelSettings, DEFAULT_CHANNEL_SETTINGS, getChannelSettings, isDomainAllowed } from "./settings";
+import { applyUrlPolicy, formatBlockedReply, getUrlPolicy, PolicyResult } from "./policy";
+import {
+  createInteractionJob,
+  createSlackEventJob,
+  getEventStatus,
+  InteractionJob,
+  markEventDone,
+  markEventProcessing,
+  postDeadLetterReply,
+  retryDelaySeconds,
+  SlackEventJob,
+  SummaryJob,
+  willRetry
+} from "./jobs";
+import type { Env, SlackEvent, SlackEventEnvelope, SlackUnfurlParams, SlackInteractionPayload, SlackSlashCommandPayload, SlackUpdateMessageParams } from "./types";
 
-// Initialize rate limiter
-const rateLimiter = new SlackRateLimiter();
+// Durable Object classes must be exported from the entry module
+export { SlackRateLimiter } from "./rate-limiter";
 
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
@@ -15,6 +66,20 @@ export default {
       return new Response("OK", { status: 200 });
     }
     
+    // OAuth install flow for additional workspaces
+    if (request.method === "GET" && url.pathname === "/slack/install") {
+      return handleInstall(request, env);
+    }
+    
+    if (request.method === "GET" && url.pathname === "/slack/oauth/callback") {
+      try {
+        return await handleOAuthCallback(request, env);
+      } catch (error) {
+        console.error("Error handling OAuth callback:", error);
+        return new Response("Internal Server Error", { status: 500 });
+      }
+    }
+    
     // Main Slack events endpoint
     if (request.method === "POST" && url.pathname === "/slack/events") {
       try {
@@ -34,30 +99,35 @@ export default {
         }
         
         // Verify Slack signature for all other events
-        const isTestMode = request.headers.get("x-test-mode") === "true";
+        const isValid = await verifySlackSignature(
+          request,
+          rawBody,
+          env.SLACK_SIGNING_SECRET
+        );
         
-        if (!isTestMode) {
-          const isValid = await verifySlackSignature(
-            request,
-            rawBody,
-            env.SLACK_SIGNING_SECRET
-          );
-          
-          if (!isValid) {
-            console.error("Invalid Slack signature");
-            return new Response("Unauthorized", { status: 401 });
-          }
+        if (!isValid) {
+          console.error("Invalid Slack signature");
+          return new Response("Unauthorized", { status: 401 });
         }
         
         // Handle event callbacks
         if (envelope.type === "event_callback" && envelope.event) {
-          // Immediately acknowledge receipt
-          const ackResponse = new Response("", { status: 200 });
+          const job = createSlackEventJob(envelope, request);
           
-          // Process event asynchronously
-          ctx.waitUntil(processSlackEvent(envelope, env, request));
+          if (env.SUMMARY_QUEUE) {
+            // Summarization can outlive waitUntil, so the queue consumer does the work
+            await env.SUMMARY_QUEUE.send(job);
+          } else {
+            // Without a queue binding (e.g. local development) process in the background
+            ctx.waitUntil(
+              processSlackEvent(job, env, 1).catch(error => {
+                console.error("Error processing Slack event:", error);
+              })
+            );
+          }
           
-          return ackResponse;
+          // Immediately acknowledge receipt
+          return new Response("", { status: 200 });
         }
         
         // Unknown event type
@@ -70,183 +140,892 @@ export default {
       }
     }
     
-    // 404 for all other paths
-    return new Response("Not Found", { status: 404 });
-  }
-};
+    // Slash command endpoint (/summarize)
+    if (request.method === "POST" && url.pathname === "/slack/commands") {
+      try {
+        const rawBody = await request.text();
 
-async function processSlackEvent(
-  envelope: SlackEventEnvelope,
-  env: Env,
-  request: Request
-): Promise<void> {
-  try {
-    // Check for retry headers
-    const retryNum = request.headers.get("x-slack-retry-num");
-    const retryReason = request.headers.get("x-slack-retry-reason");
-    
-    if (retryNum) {
-      console.log(`Processing Slack retry ${retryNum}, reason: ${retryReason}`);
+        const isValid = await verifySlackSignature(
+          request,
+          rawBody,
+          env.SLACK_SIGNING_SECRET
+        );
+
+        if (!isValid) {
+          console.error("Invalid Slack signature");
+          return new Response("Unauthorized", { status: 401 });
+        }
+
+        // Slash commands are sent as application/x-www-form-urlencoded
+        const payload = Object.fromEntries(new URLSearchParams(rawBody)) as unknown as SlackSlashCommandPayload;
+        
+        // From here on Slack is called with the token of the workspace the command came from
+        const teamEnv = await getTeamEnv(env, payload.team_id);
+        if (!teamEnv) {
+          return jsonResponse({ response_type: "ephemeral", text: "⚠️ このワークスペースにはアプリがインストールされていません。" });
+        }
+        env = teamEnv;
+        
+        // "/summaries search ..." only reads the archive, so it answers right away
+        if (payload.command === "/summaries") {
+          const response = await processSummariesCommand(payload, env);
+          return jsonResponse({ response_type: "ephemeral", ...response });
+        }
+        
+        // "/summarize config ..." edits the channel settings and answers right away
+        const [subcommand, ...args] = (payload.text ?? "").trim().split(/\s+/);
+        if (subcommand === "config") {
+          const text = await processConfigCommand(payload, args, env);
+          return jsonResponse({ response_type: "ephemeral", text });
+        }
+
+        // "/summarize usage" reports token usage to admins
+        if (subcommand === "usage") {
+          const text = await processUsageCommand(payload, args, env);
+          return jsonResponse({ response_type: "ephemeral", text });
+        }
+        
+        const options = parseSummarizeCommand(payload.text ?? "", env);
+
+        if (options.urls.length === 0) {
+          return jsonResponse({ response_type: "ephemeral", text: SUMMARIZE_USAGE });
+        }
+
+        // Slack requires a response within 3 seconds, so summarize in the background
+        ctx.waitUntil(processSummarizeCommand(payload, options, env));
+
+        return jsonResponse({
+          response_type: "ephemeral",
+          text: `⏳ ${options.urls.length}件のURLを要約しています…`
+        });
+
+      } catch (error) {
+        console.error("Error processing slash command:", error);
+        return new Response("Internal Server Error", { status: 500 });
+      }
+    }
+
+    // Interactivity endpoint (buttons on summary replies)
+    if (request.method === "POST" && url.pathname === "/slack/interactions") {
+      try {
+        const rawBody = await request.text();
+
+        const isValid = await verifySlackSignature(
+          request,
+          rawBody,
+          env.SLACK_SIGNING_SECRET
+        );
+
+        if (!isValid) {
+          console.error("Invalid Slack signature");
+          return new Response("Unauthorized", { status: 401 });
+        }
+
+        // Interactions arrive as a form field named "payload" holding JSON
+        const payloadJson = new URLSearchParams(rawBody).get("payload");
+        if (!payloadJson) {
+          return new Response("Missing payload", { status: 400 });
+        }
+
+        const payload = JSON.parse(payloadJson) as SlackInteractionPayload;
+
+        const teamEnv = await getTeamEnv(env, payload.team?.id ?? payload.user.team_id);
+        if (!teamEnv) {
+          return new Response("", { status: 200 });
+        }
+
+        // Acknowledge within 3 seconds; re-summarizing can outlive waitUntil, so the queue consumer does it
+        if (env.SUMMARY_QUEUE) {
+          await env.SUMMARY_QUEUE.send(createInteractionJob(payload));
+        } else {
+          ctx.waitUntil(processInteraction(payload, teamEnv));
+        }
+
+        return new Response("", { status: 200 });
+
+      } catch (error) {
+        console.error("Error processing interaction:", error);
+        return new Response("Internal Server Error", { status: 500 });
+      }
+    }
+
+    // JSON export of the summary archive, for API key holders
+    if (request.method === "GET" && url.pathname === "/api/summaries/export") {
+      if (!(await isAuthorizedApiRequest(request, env))) {
+        return unauthorizedResponse();
+      }
+      
+      if (!env.ARCHIVE) {
+        return jsonResponse({ error: "archive_not_configured" }, 501);
+      }
+      
+      const params = url.searchParams;
+      const limit = Math.min(Math.max(parseInt(params.get("limit") ?? "", 10) || 500, 1), 1000);
+      const cursor = parseInt(params.get("cursor") ?? "", 10);
+      
+      const summaries = await exportArchive(env.ARCHIVE, {
+        team: params.get("team") ?? undefined,
+        channel: params.get("channel") ?? undefined,
+        user: params.get("user") ?? undefined,
+        since: parseDate(params.get("since") ?? ""),
+        until: parseDate(params.get("until") ?? "")
+      }, {
+        afterId: Number.isNaN(cursor) ? undefined : cursor,
+        limit
+      });
+      
+      // A full page means there may be more; pass next_cursor back as ?cursor=
+      const nextCursor = summaries.length === limit ? summaries[summaries.length - 1].id : null;
+      return jsonResponse({ summaries, next_cursor: nextCursor });
     }
     
-    // Deduplication using KV store
-    if (envelope.event_id && env.DEDUP) {
-      const dedupKey = `event:${envelope.event_id}`;
-      const alreadyProcessed = await env.DEDUP.get(dedupKey);
+    // Summaries for tools outside Slack, using the same pipeline as messages
+    if (request.method === "POST" && url.pathname === "/api/summarize") {
+      if (!(await isAuthorizedApiRequest(request, env))) {
+        return unauthorizedResponse();
+      }
       
-      if (alreadyProcessed) {
-        console.log(`Event ${envelope.event_id} already processed, skipping`);
-        return;
+      let body: unknown;
+      try {
+        body = await request.json();
+      } catch {
+        return jsonResponse({ error: "invalid_json" }, 400);
       }
       
-      // Mark as processed with 1-hour TTL
-      await env.DEDUP.put(dedupKey, "1", { expirationTtl: 3600 });
+      const parsed = parseSummarizeApiRequest(body);
+      if (!parsed.ok) {
+        return jsonResponse({ error: "invalid_request", message: parsed.error }, 400);
+      }
+      
+      try {
+        return jsonResponse(await processSummarizeApiRequest(parsed.request, env));
+      } catch (error) {
+        console.error("Error processing API summarize request:", error);
+        return jsonResponse({ error: "internal_error" }, 500);
+      }
     }
     
-    const event = envelope.event;
-    if (!event) {
-      console.warn("No event in envelope");
-      return;
+    if (request.method === "GET" && url.pathname === "/api/usage") {
+      if (!(await isAuthorizedApiRequest(request, env))) {
+        return unauthorizedResponse();
+      }
+      
+      const params = url.searchParams;
+      const date = params.get("date") ?? undefined;
+      if (date && parseDate(date) === undefined) {
+        return jsonResponse({ error: "invalid_date" }, 400);
+      }
+      
+      const report = await getUsageReport(env, {
+        team: params.get("team") ?? undefined,
+        channel: params.get("channel") ?? undefined,
+        user: params.get("user") ?? undefined
+      }, date);
+      return jsonResponse(report);
     }
     
-    // Debug: Log the actual event structure
-    console.log("Received Slack event:", JSON.stringify(event, null, 2));
-    console.log("Event type:", event.type);
-    console.log("Event subtype:", event.subtype);
+    // 404 for all other paths
+    return new Response("Not Found", { status: 404 });
+  },
+
+  async queue(batch: MessageBatch<SummaryJob>, env: Env): Promise<void> {
+    // The dead-letter queue only receives jobs that used up all their retries
+    const isDeadLetter = batch.queue.endsWith("-dlq");
     
-    // Handle link_shared events
-    if (event.type === "link_shared") {
-      console.log("Processing link_shared event");
-      if (event.links && event.links.length > 0) {
-        const urls = event.links.map((link: any) => link.url);
-        console.log("Found URLs from link_shared:", urls);
-        
-        // Process these URLs
-        const summaryResult = await summarizeUrlsWithGemini(urls.slice(0, 20), {
-          apiKey: env.GEMINI_API_KEY,
-          baseUrl: env.GEMINI_BASE_URL,
-          model: env.GEMINI_MODEL || "gemini-2.5-flash"
-        });
-        
-        // Post to the channel where the link was shared
-        if (event.channel) {
-          await rateLimiter.executeWithRateLimit(event.channel, async () => {
-            await slackPostMessage(env.SLACK_BOT_TOKEN, {
-              channel: event.channel!,
-              text: summaryResult.summary,
-              thread_ts: event.message_ts,
-              reply_broadcast: false
-            });
-          });
+    for (const message of batch.messages) {
+      // Interactions report their own errors to the user, so they are never retried
+      if (message.body.kind === "interaction") {
+        await processInteractionJob(message.body, env);
+        message.ack();
+        continue;
+      }
+      
+      const job = message.body;
+      const eventId = job.envelope.event_id;
+      
+      if (isDeadLetter) {
+        console.error(`Event ${eventId} failed after all retries, posting error reply`);
+        try {
+          await postDeadLetterReply(job, env);
+        } catch (error) {
+          console.error(`Failed to post dead-letter reply for ${eventId}:`, error);
         }
-        
-        return;
+        message.ack();
+        continue;
+      }
+      
+      try {
+        await processSlackEvent(job, env, message.attempts);
+        message.ack();
+      } catch (error) {
+        const delaySeconds = retryDelaySeconds(message.attempts);
+        console.error(`Event ${eventId} failed on attempt ${message.attempts}, retrying in ${delaySeconds}s:`, error);
+        message.retry({ delaySeconds });
       }
     }
+  },
+
+  // Cron trigger (see [triggers] in wrangler.toml) for the daily and weekly link digests
+  async scheduled(controller: ScheduledController, env: Env): Promise<void> {
+    console.log(`Running scheduled digests for cron "${controller.cron}"`);
+    await sendScheduledDigests(env, controller.scheduledTime);
+  }
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json; charset=utf-8" }
+  });
+}
+
+// Runs a queued button click with the token of the workspace it came from
+async function processInteractionJob(job: InteractionJob, env: Env): Promise<void> {
+  const { payload } = job;
+  try {
+    const teamEnv = await getTeamEnv(env, payload.team?.id ?? payload.user.team_id);
+    if (teamEnv) {
+      await processInteraction(payload, teamEnv);
+    }
+  } catch (error) {
+    console.error(`Failed to process queued ${payload.actions?.[0]?.action_id} interaction:`, error);
+  }
+}
+
+// Runs one Slack event job; throws so the queue can retry it
+async function processSlackEvent(
+  job: SlackEventJob,
+  env: Env,
+  attempt: number
+): Promise<void> {
+  const { envelope } = job;
+  
+  if (job.slackRetryNum) {
+    console.log(`Processing Slack retry ${job.slackRetryNum}, reason: ${job.slackRetryReason}`);
+  }
+  
+  // Deduplication using KV store; an event only counts as done once it was handled successfully
+  if (envelope.event_id && env.DEDUP) {
+    const status = await getEventStatus(env.DEDUP, envelope.event_id);
     
-    // Skip bot messages to avoid loops
-    if (event.bot_id || event.subtype === "bot_message") {
-      console.log("Skipping bot message");
+    if (status === "done") {
+      console.log(`Event ${envelope.event_id} already processed, skipping`);
       return;
     }
     
-    // Only process message events
-    if (event.type !== "message" && event.type !== "app_mention") {
-      console.log(`Skipping event type: ${event.type}`);
+    // A first delivery that finds another attempt in flight is Slack redelivering the same event
+    if (status === "processing" && attempt === 1) {
+      console.log(`Event ${envelope.event_id} is already being processed, skipping`);
       return;
     }
     
-    // Skip if no text or channel
-    if (!event.text || !event.channel || !event.ts) {
-      console.log("Missing required event fields - text:", !!event.text, "channel:", !!event.channel, "ts:", !!event.ts);
+    await markEventProcessing(env.DEDUP, envelope.event_id);
+  }
+  
+  // Uninstalls are handled before the token lookup, since the token no longer works
+  const eventType = envelope.event?.type;
+  if (eventType === "app_uninstalled" || eventType === "tokens_revoked") {
+    await handleUninstallEvent(envelope, env);
+  } else {
+    // Every Slack call for this event uses the token of the workspace it came from
+    const teamEnv = await getTeamEnv(env, eventTeamId(envelope));
+    if (teamEnv) {
+      await handleSlackEvent(envelope, teamEnv, willRetry(env, attempt));
+    }
+  }
+  
+  if (envelope.event_id && env.DEDUP) {
+    await markEventDone(env.DEDUP, envelope.event_id);
+  }
+}
+
+async function handleSlackEvent(
+  envelope: SlackEventEnvelope,
+  env: Env,
+  retryable: boolean
+): Promise<void> {
+  const event = envelope.event;
+  if (!event) {
+    console.warn("No event in envelope");
+    return;
+  }
+  
+  const provider = createSummarizationProvider(env);
+  const team = eventTeamId(envelope);
+  
+  // Debug: Log the actual event structure
+  console.log("Received Slack event:", JSON.stringify(event, null, 2));
+  console.log("Event type:", event.type);
+  console.log("Event subtype:", event.subtype);
+  
+  // Handle link_shared events (only sent for the app's registered unfurl domains)
+  if (event.type === "link_shared") {
+    await handleLinkShared(event, env, provider, team, retryable);
+    return;
+  }
+  
+  // Skip bot messages to avoid loops
+  if (event.bot_id || event.subtype === "bot_message") {
+    console.log("Skipping bot message");
+    return;
+  }
+  
+  // Edits and deletions carry the affected message in event.message / event.deleted_ts
+  if (event.type === "message" && event.subtype === "message_changed") {
+    await handleMessageChanged(event, env, provider, team, retryable);
+    return;
+  }
+  
+  if (event.type === "message" && event.subtype === "message_deleted") {
+    await handleMessageDeleted(event, env);
+    return;
+  }
+  
+  // Only process message events
+  if (event.type !== "message" && event.type !== "app_mention") {
+    console.log(`Skipping event type: ${event.type}`);
+    return;
+  }
+  
+  // Skip if no text or channel (file uploads can come without text)
+  if ((!event.text && !event.files?.length) || !event.channel || !event.ts) {
+    console.log("Missing required event fields - text:", !!event.text, "channel:", !!event.channel, "ts:", !!event.ts);
+    return;
+  }
+  
+  const settings = await getChannelSettings(env.DEDUP, event.channel);
+  
+  if (!settings.enabled) {
+    console.log(`Summaries are disabled in ${event.channel}`);
+    return;
+  }
+  
+  // In mention-only channels plain messages are ignored; the app_mention event handles them
+  if (settings.mentionOnly && event.type !== "app_mention") {
+    console.log(`Channel ${event.channel} is mention-only, skipping message`);
+    return;
+  }
+  
+  // Mentions inside a summarized thread are follow-up questions about the linked pages
+  if (event.type === "app_mention" && event.thread_ts && event.thread_ts !== event.ts) {
+    if (await answerFollowUpQuestion(event, env, provider, team)) {
       return;
     }
+  }
+  
+  // Everywhere else the same message also arrives as a message event (with its own event_id),
+  // which summarizes it; answering the mention too would post a second reply
+  if (event.type === "app_mention" && !settings.mentionOnly) {
+    console.log(`Channel ${event.channel} is not mention-only, leaving the mention to the message event`);
+    return;
+  }
+  
+  const { allowed: urls, blocked } = await resolveMessageUrls(event, event.channel, settings, env);
+  const files = selectSlackFiles(event.files);
+  
+  // Determine thread timestamp
+  const threadTs = event.thread_ts || event.ts;
+  
+  // A retried job finds the replies of earlier attempts in the source record and reuses them
+  const existing = await getSourceRecord(env.DEDUP, event.channel, event.ts);
+  const replyTs = [...(existing?.replyTs ?? [])];
+  
+  if (blocked.length > 0 && !existing?.blockedUrls.length) {
+    const notice = await postMessageRateLimited(env, {
+      channel: event.channel,
+      text: formatBlockedReply(blocked),
+      thread_ts: threadTs
+    });
+    replyTs.push(notice.ts);
     
-    // Skip if it's an edit (has previous_message)
-    if (event.previous_message) {
-      console.log("Skipping message edit");
-      return;
+    // Saved before summarizing, which may fail and be retried
+    await saveSourceRecord(env.DEDUP, event.channel, event.ts, {
+      ...existing,
+      replyTs,
+      urls,
+      blockedUrls: blocked.map(decision => decision.url),
+      threadTs
+    });
+  }
+  
+  if (urls.length === 0 && files.length === 0) {
+    console.log("No URLs or files found in message");
+    return;
+  }
+  
+  console.log(`Found ${urls.length} URLs and ${files.length} files to summarize:`, urls);
+  
+  // Summaries take 10-30 seconds, so a placeholder reply shows the links were picked up
+  const placeholder = {
+    channel: event.channel,
+    text: formatPlaceholder(urls.length, files.length)
+  };
+  let summaryTs: string;
+  if (existing?.pending && existing.summaryTs) {
+    summaryTs = existing.summaryTs;
+    await updateMessageRateLimited(env, { ...placeholder, ts: summaryTs });
+    await setProgressReaction(env, event.channel, event.ts, "working", "failed");
+  } else {
+    await setProgressReaction(env, event.channel, event.ts, "working");
+    const posted = await postMessageRateLimited(env, { ...placeholder, thread_ts: threadTs });
+    summaryTs = posted.ts as string;
+    replyTs.push(summaryTs);
+    
+    // Saved right away, so deleting the message also removes the placeholder
+    await saveSourceRecord(env.DEDUP, event.channel, event.ts, {
+      summaryTs,
+      replyTs,
+      urls,
+      blockedUrls: blocked.map(decision => decision.url),
+      threadTs,
+      pending: true
+    });
+  }
+  
+  // Summarize each URL and file separately; failures are reported per item in the reply
+  const options = {
+    language: settings.language,
+    style: settings.style,
+    usage: { team, channel: event.channel, user: event.user },
+    throwRetryable: retryable
+  };
+  let outcomes: UrlSummaryOutcome[];
+  try {
+    outcomes = [
+      ...(urls.length > 0 ? await summarizeUrls(urls, provider, env, options) : []),
+      ...(files.length > 0 ? await summarizeSlackFiles(files, provider, env, options) : [])
+    ];
+  } catch (error) {
+    // Only say it is retrying when the queue will actually run the job again
+    try {
+      await updateMessageRateLimited(env, { channel: event.channel, ts: summaryTs, text: retryable ? RETRYING_TEXT : FAILED_TEXT });
+    } catch (updateError) {
+      console.error(`Failed to update placeholder ${event.channel}:${summaryTs}:`, updateError);
+    }
+    await setProgressReaction(env, event.channel, event.ts, "failed", "working");
+    throw error;
+  }
+  
+  // Log the summaries for testing (without JSON.stringify to preserve emojis)
+  for (const outcome of outcomes) {
+    if (outcome.ok) {
+      console.log("Summary Result:", {
+        url: outcome.url,
+        title: outcome.result.title,
+        summary: outcome.result.summary,
+        cached: outcome.result.cached,
+        model: outcome.result.model
+      });
+    } else {
+      console.log(`Summary failed for ${outcome.url}: ${outcome.reason}`);
     }
+  }
+  
+  // Broadcast only when at least one summary succeeded; pure error replies stay in the thread
+  const hasSummary = outcomes.some(outcome => outcome.ok);
+  
+  // Replace the placeholder with the summaries
+  // Resolves once the update has actually gone through the channel's rate limiter
+  await updateMessageRateLimited(env, {
+    channel: event.channel,
+    ts: summaryTs,
+    text: formatSummaryReply(outcomes),
+    blocks: buildSummaryBlocks(outcomes, { actions: true }),
+    reply_broadcast: hasSummary && settings.broadcast
+  });
+  await setProgressReaction(env, event.channel, event.ts, hasSummary ? "done" : "failed", "working");
+  
+  // Remember what this reply covers so its buttons can act on it later
+  await saveReplyContext(env.DEDUP, event.channel, summaryTs, {
+    urls,
+    files: files.length > 0 ? files : undefined,
+    poster: event.user,
+    language: settings.language,
+    style: settings.style,
+    threadTs,
+    sourceTs: event.ts
+  });
+  
+  // Remember the replies for this message so edits and deletions can follow it
+  await saveSourceRecord(env.DEDUP, event.channel, event.ts, {
+    summaryTs,
+    replyTs,
+    urls,
+    blockedUrls: blocked.map(decision => decision.url),
+    threadTs
+  });
+  
+  await recordPostedSummaries(env, { team, channel: event.channel, channelType: event.channel_type, poster: event.user, ts: event.ts }, outcomes);
+  
+  console.log(`Posted summary to channel ${event.channel}, thread ${threadTs}`);
+}
+
+// Extracts, expands and filters a message's links, then applies the URL safety policy
+async function resolveMessageUrls(
+  message: SlackEvent,
+  channel: string,
+  settings: ChannelSettings,
+  env: Env
+): Promise<PolicyResult> {
+  const urlOptions = getUrlFilterOptions(env);
+  const extracted = extractUrlsFromSlackEvent(message, 20, urlOptions);
+  const expanded = (await expandShortUrls(extracted, urlOptions))
+    .filter(url => isDomainAllowed(url, settings));
+  
+  // Private, internal and credential-bearing links never reach the LLM provider
+  const result = applyUrlPolicy(expanded, getUrlPolicy(env), {
+    channel,
+    user: message.user,
+    ts: message.ts
+  });
+  
+  // In unfurl mode links on the unfurl domains get an inline preview instead of a thread reply.
+  // Mention-only channels get no unfurls, so there the mention's reply still covers them.
+  // Blocked links stay in, so the thread still explains why they were not previewed.
+  const unfurlDomains = getLinkSharedMode(env) === "unfurl" && !settings.mentionOnly ? getUnfurlDomains(env) : [];
+  return { ...result, allowed: result.allowed.filter(url => !matchesHost(url, unfurlDomains)) };
+}
+
+// One output path per link: "unfurl" answers the unfurl domains with chat.unfurl, "thread"
+// leaves everything to the message path except channels the bot is not in
+function getLinkSharedMode(env: Env): "unfurl" | "thread" {
+  return env.LINK_SHARED_MODE === "thread" ? "thread" : "unfurl";
+}
+
+async function handleMessageChanged(
+  event: SlackEvent,
+  env: Env,
+  provider: SummarizationProvider,
+  team: string | undefined,
+  retryable: boolean
+): Promise<void> {
+  const message = event.message;
+  if (!event.channel || !message?.ts) {
+    return;
+  }
+  
+  // Our own chat.update calls (and other bots' edits) come back as message_changed too
+  if (message.bot_id || message.subtype === "bot_message") {
+    console.log("Skipping bot message edit");
+    return;
+  }
+  
+  const channel = event.channel;
+  const settings = await getChannelSettings(env.DEDUP, channel);
+  if (!settings.enabled) {
+    console.log(`Summaries are disabled in ${channel}`);
+    return;
+  }
+  
+  const record = await getSourceRecord(env.DEDUP, channel, message.ts);
+  
+  // Mentions are not re-sent on edit, so mention-only channels only follow messages already summarized
+  if (settings.mentionOnly && !record) {
+    console.log(`Channel ${channel} is mention-only, skipping edit`);
+    return;
+  }
+  
+  // The edit is diffed against the message before it, not the stored record: the unfurl's
+  // message_changed can arrive before the record is saved, and older messages have none
+  const { allowed: urls, blocked } = await resolveMessageUrls(message, channel, settings, env);
+  const previous = event.previous_message
+    ? await resolveMessageUrls(event.previous_message, channel, settings, env)
+    : { allowed: record?.urls ?? [], blocked: [] };
+  const previousBlocked = previous.blocked.map(decision => decision.url);
+  const addedUrls = urls.filter(url => !previous.allowed.includes(url));
+  // Removing a link only matters when there is a summary to update
+  const removedUrls = record?.summaryTs ? previous.allowed.filter(url => !urls.includes(url)) : [];
+  // Links in the record were already explained, e.g. by an earlier attempt of this job
+  const newlyBlocked = blocked.filter(decision =>
+    !previousBlocked.includes(decision.url) && !record?.blockedUrls.includes(decision.url)
+  );
+  
+  // Unfurls and formatting-only edits also arrive as message_changed
+  if (addedUrls.length === 0 && removedUrls.length === 0 && newlyBlocked.length === 0) {
+    console.log(`No link changes in edited message ${channel}:${message.ts}`);
+    return;
+  }
+  
+  console.log(`Edited message ${channel}:${message.ts} - added:`, addedUrls, "removed:", removedUrls);
+  
+  const threadTs = record?.threadTs ?? (message.thread_ts || message.ts);
+  let replyTs = [...(record?.replyTs ?? [])];
+  let summaryTs = record?.summaryTs;
+  
+  if (newlyBlocked.length > 0) {
+    const notice = await postMessageRateLimited(env, {
+      channel,
+      text: formatBlockedReply(newlyBlocked),
+      thread_ts: threadTs
+    });
+    replyTs.push(notice.ts);
     
-    // Extract URLs from the event
-    const urls = extractUrlsFromSlackEvent(event, 20);
+    // Saved before summarizing, which may fail and be retried
+    await saveSourceRecord(env.DEDUP, channel, message.ts, {
+      summaryTs,
+      replyTs,
+      urls: record?.urls ?? previous.allowed,
+      blockedUrls: [...(record?.blockedUrls ?? []), ...newlyBlocked.map(decision => decision.url)],
+      threadTs
+    });
+  }
+  
+  // Uploads cannot be changed by an edit, but their summaries stay in the updated reply
+  const files = selectSlackFiles(message.files);
+  
+  if (urls.length === 0 && files.length === 0) {
+    // Every link was removed, so the summary goes too
+    if (summaryTs) {
+      await deleteMessageRateLimited(env, channel, summaryTs);
+      await deleteReplyContext(env.DEDUP, channel, summaryTs);
+      replyTs = replyTs.filter(ts => ts !== summaryTs);
+      summaryTs = undefined;
+    }
+  } else if (addedUrls.length > 0 || removedUrls.length > 0) {
+    // Keep a language or style picked with the reply's buttons
+    const context = summaryTs ? await getReplyContext(env.DEDUP, channel, summaryTs) : null;
+    const language = context?.language ?? settings.language;
+    const style = context?.style ?? settings.style;
     
-    if (urls.length === 0) {
-      console.log("No URLs found in message");
-      return;
+    // Links and files that were already summarized come back from the summary cache; only added ones reach the provider
+    const options = { language, style, usage: { team, channel, user: message.user }, throwRetryable: retryable };
+    const outcomes = [
+      ...(urls.length > 0 ? await summarizeUrls(urls, provider, env, options) : []),
+      ...(files.length > 0 ? await summarizeSlackFiles(files, provider, env, options) : [])
+    ];
+    const reply = {
+      channel,
+      text: formatSummaryReply(outcomes),
+      blocks: buildSummaryBlocks(outcomes, { actions: true })
+    };
+    
+    // The summary may have been removed with its delete button before the record was updated
+    if (summaryTs && !(await updateSummaryReply(env, { ...reply, ts: summaryTs }))) {
+      replyTs = replyTs.filter(ts => ts !== summaryTs);
+      summaryTs = undefined;
+    }
+    
+    if (!summaryTs) {
+      const hasSummary = outcomes.some(outcome => outcome.ok);
+      const posted = await postMessageRateLimited(env, {
+        ...reply,
+        thread_ts: threadTs,
+        reply_broadcast: hasSummary && settings.broadcast
+      });
+      summaryTs = posted.ts as string;
+      replyTs.push(summaryTs);
     }
     
-    console.log(`Found ${urls.length} URLs to summarize:`, urls);
+    await saveReplyContext(env.DEDUP, channel, summaryTs, {
+      urls,
+      files: files.length > 0 ? files : undefined,
+      poster: message.user,
+      language,
+      style,
+      threadTs,
+      sourceTs: message.ts
+    });
     
-    // Summarize using Gemini
+    const added = outcomes.filter(outcome => addedUrls.includes(outcome.url));
+    await recordPostedSummaries(env, { team, channel, channelType: event.channel_type, poster: message.user, ts: message.ts }, added);
+  }
+  
+  await saveSourceRecord(env.DEDUP, channel, message.ts, {
+    summaryTs,
+    replyTs,
+    urls,
+    blockedUrls: blocked.map(decision => decision.url),
+    threadTs
+  });
+  
+  console.log(`Updated replies for edited message ${channel}:${message.ts}`);
+}
+
+// false when the reply no longer exists
+async function updateSummaryReply(
+  env: Env,
+  params: SlackUpdateMessageParams
+): Promise<boolean> {
+  try {
+    await updateMessageRateLimited(env, params);
+    return true;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("message_not_found")) {
+      console.log(`Summary ${params.channel}:${params.ts} was deleted, posting a new reply`);
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function handleMessageDeleted(
+  event: SlackEvent,
+  env: Env
+): Promise<void> {
+  const ts = event.deleted_ts ?? event.previous_message?.ts;
+  if (!event.channel || !ts) {
+    return;
+  }
+  
+  const record = await getSourceRecord(env.DEDUP, event.channel, ts);
+  if (!record) {
+    return;
+  }
+  
+  for (const replyTs of record.replyTs) {
     try {
-      const summaryResult = await summarizeUrlsWithGemini(urls, {
-        apiKey: env.GEMINI_API_KEY,
-        baseUrl: env.GEMINI_BASE_URL,
-        model: env.GEMINI_MODEL || "gemini-2.5-flash"
-      });
-      
-      // Log the summary for testing (without JSON.stringify to preserve emojis)
-      console.log("Gemini Summary Result:", {
-        summary: summaryResult.summary,
-        language: summaryResult.language,
-        metadata: summaryResult.metadata
-      });
-      
-      // Determine thread timestamp
-      const threadTs = event.thread_ts || event.ts;
-      
-      // Post summary to thread
-      await rateLimiter.executeWithRateLimit(event.channel, async () => {
-        await slackPostMessage(env.SLACK_BOT_TOKEN, {
-          channel: event.channel!,
-          text: summaryResult.summary,
-          thread_ts: threadTs,
-          reply_broadcast: true
-        });
-        
-        console.log(`Posted summary to channel ${event.channel}, thread ${threadTs}`);
-      });
-      
-      // Post translation if available
-      if (summaryResult.translatedBody) {
-        await rateLimiter.executeWithRateLimit(event.channel, async () => {
-          await slackPostMessage(env.SLACK_BOT_TOKEN, {
-            channel: event.channel!,
-            text: summaryResult.translatedBody!,
-            thread_ts: threadTs,
-            reply_broadcast: false
-          });
-          
-          console.log(`Posted translation to channel ${event.channel}, thread ${threadTs}`);
-        });
-      }
-      
-    } catch (geminiError) {
-      console.error("Error with Gemini summarization:", geminiError);
-      
-      // Post error message to thread
-      const threadTs = event.thread_ts || event.ts;
-      
-      // Check if it's a URLContext fetch error
-      const errorMessage = geminiError instanceof Error ? geminiError.message : String(geminiError);
-      let userMessage = "⚠️ 申し訳ございません。URLの要約中にエラーが発生しました。";
-      
-      if (errorMessage.includes("could not be fetched") || errorMessage.includes("URLContext")) {
-        userMessage = "⚠️ このURLはアクセスできませんでした。\n\n考えられる理由:\n• ログインが必要なページ\n• 地域制限があるページ\n• robots.txtでブロックされている\n• サーバーがボットをブロックしている\n\n公開されているページのURLをお試しください。";
-      }
-      
-      await rateLimiter.executeWithRateLimit(event.channel, async () => {
-        await slackPostMessage(env.SLACK_BOT_TOKEN, {
-          channel: event.channel!,
-          text: userMessage,
-          thread_ts: threadTs,
-          reply_broadcast: false
-        });
+      await deleteMessageRateLimited(env, event.channel, replyTs);
+    } catch (error) {
+      // Already removed, e.g. with the summary's delete button
+      console.warn(`Failed to delete reply ${event.channel}:${replyTs}:`, error);
+    }
+    await deleteReplyContext(env.DEDUP, event.channel, replyTs);
+  }
+  
+  await deleteSourceRecord(env.DEDUP, event.channel, ts);
+  
+  console.log(`Deleted ${record.replyTs.length} replies for deleted message ${event.channel}:${ts}`);
+}
+
+async function handleLinkShared(
+  event: SlackEvent,
+  env: Env,
+  provider: SummarizationProvider,
+  team: string | undefined,
+  retryable: boolean
+): Promise<void> {
+  console.log("Processing link_shared event, source:", event.source ?? "conversations_history");
+  
+  // Links still in the composer arrive with channel "COMPOSER" and only an unfurl_id; the
+  // message_ts is the unfurl_id too, and the channel it will be posted to is unknown
+  const isComposer = event.source === "composer" || event.channel === "COMPOSER";
+  const canUnfurl = isComposer ? !!event.unfurl_id : !!event.channel && !!event.message_ts;
+  if (!event.links || event.links.length === 0 || !event.channel || !canUnfurl) {
+    return;
+  }
+  
+  const mode = getLinkSharedMode(env);
+  
+  if (mode === "thread" && (isComposer || event.is_bot_user_member)) {
+    // Thread replies need a posted message, and the message event already answers channels the bot is in
+    console.log(`Thread mode leaves link_shared to the message path (composer: ${isComposer})`);
+    return;
+  }
+  
+  // Composer previews cannot see the channel's settings, so they get the defaults
+  const settings = isComposer ? DEFAULT_CHANNEL_SETTINGS : await getChannelSettings(env.DEDUP, event.channel);
+  if (!settings.enabled) {
+    console.log(`Summaries are disabled in ${event.channel}`);
+    return;
+  }
+  
+  // Mention-only channels get summaries only when the bot is mentioned, not for every shared link
+  if (settings.mentionOnly) {
+    console.log(`Channel ${event.channel} is mention-only, skipping link_shared`);
+    return;
+  }
+  
+  const channel = isComposer ? undefined : event.channel;
+  
+  // chat.unfurl is keyed by the URL exactly as Slack sent it, so keep the original next to its normalized form
+  const urlOptions = getUrlFilterOptions(env);
+  const targets = await Promise.all(event.links.slice(0, 20).map(async link => {
+    const [url] = await expandShortUrls(collectUrls([link.url], 1, urlOptions), urlOptions);
+    return { link: link.url, url };
+  }));
+  
+  const expanded = targets
+    .map(target => target.url)
+    .filter((url): url is string => !!url && isDomainAllowed(url, settings));
+  const { allowed, blocked } = applyUrlPolicy(Array.from(new Set(expanded)), getUrlPolicy(env), {
+    channel,
+    user: event.user
+  });
+  console.log("Found URLs from link_shared:", allowed);
+  
+  // Thread mode only gets here for posted messages in channels the bot is not in
+  if (mode === "thread" && channel && event.message_ts) {
+    const outcomes = allowed.length > 0
+      ? await summarizeUrls(allowed, provider, env, {
+        language: settings.language,
+        style: settings.style,
+        usage: { team, channel: channel, user: event.user },
+        throwRetryable: retryable
+      })
+      : [];
+    
+    // Posted after summarizing, so a retried job does not repeat it
+    if (blocked.length > 0) {
+      await postMessageRateLimited(env, {
+        channel: channel,
+        text: formatBlockedReply(blocked),
+        thread_ts: event.message_ts
       });
     }
     
-  } catch (error) {
-    console.error("Error processing Slack event:", error);
+    if (outcomes.length === 0) {
+      return;
+    }
+    
+    // Post to the thread of the message where the link was shared
+    const posted = await postMessageRateLimited(env, {
+      channel: channel,
+      text: formatSummaryReply(outcomes),
+      blocks: buildSummaryBlocks(outcomes, { actions: true }),
+      thread_ts: event.message_ts,
+      reply_broadcast: false
+    });
+    
+    await saveReplyContext(env.DEDUP, channel, posted.ts, {
+      urls: allowed,
+      poster: event.user,
+      language: settings.language,
+      style: settings.style,
+      threadTs: event.message_ts
+    });
+    
+    await recordPostedSummaries(env, { team, channel: channel, poster: event.user, ts: event.message_ts }, outcomes);
+    return;
+  }
+  
+  // Blocked links simply get no unfurl; the message path already explains them in the thread
+  if (allowed.length === 0) {
+    return;
+  }
+  
+  // Same language and style as thread replies, so both paths share cached summaries
+  const outcomes = await summarizeUrls(allowed, provider, env, {
+    language: settings.language,
+    style: settings.style,
+    usage: { team, channel, user: event.user },
+    throwRetryable: retryable
+  });
+  
+  const unfurls: SlackUnfurlParams["unfurls"] = {};
+  for (const outcome of outcomes) {
+    if (!outcome.ok) {
+      console.log(`No unfurl for ${outcome.url}: ${outcome.reason}`);
+      continue;
+    }
+    for (const target of targets) {
+      if (target.url === outcome.url) {
+        unfurls[target.link] = { blocks: buildUnfurlBlocks(outcome.url, outcome.result) };
+      }
+    }
+  }
+  
+  if (Object.keys(unfurls).length === 0) {
+    return;
+  }
+  
+  await unfurlRateLimited(env, event.unfurl_id
+    ? { unfurl_id: event.unfurl_id, source: event.source ?? "composer", unfurls }
+    : { channel, ts: event.message_ts, unfurls });
+  
+  // Composer previews may never be sent, so only links in posted messages go into the digest
+  if (channel && event.message_ts) {
+    await recordPostedSummaries(env, { team, channel, poster: event.user, ts: event.message_ts }, outcomes);
   }
-}
\ No newline at end of file
+  
+  console.log(`Unfurled ${Object.keys(unfurls).length} links in ${channel ?? "the composer"}`);
+}
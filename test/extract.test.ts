@@ -0,0 +1,149 @@
+import { describe, expect, test } from "bun:test";
+import { expandShortUrls, normalizeUrl, shouldSummarizeUrl } from "../src/extract";
+import { stubFetch } from "./helpers";
+
+const ARTICLE_URL = "https://news.example.com/story";
+
+function redirect(location: string): () => Response {
+  return () => new Response(null, { status: 301, headers: { location } });
+}
+
+describe("normalizeUrl", () => {
+  test("strips utm_ and click-id parameters and keeps the rest", () => {
+    expect(normalizeUrl(`${ARTICLE_URL}?id=7&utm_source=slack&UTM_Medium=social&fbclid=abc&gclid=def`)).toBe(`${ARTICLE_URL}?id=7`);
+  });
+
+  test("drops the bare question mark when only tracking parameters were present", () => {
+    expect(normalizeUrl(`${ARTICLE_URL}?utm_campaign=launch&si=xyz`)).toBe(ARTICLE_URL);
+  });
+
+  test("canonicalizes the host, fragment and trailing slashes", () => {
+    expect(normalizeUrl("https://News.Example.COM./story/#comments")).toBe(ARTICLE_URL);
+    expect(normalizeUrl("https://news.example.com/")).toBe("https://news.example.com/");
+  });
+
+  test("unescapes the &amp; that Slack puts in message text", () => {
+    expect(normalizeUrl(`${ARTICLE_URL}?a=1&amp;utm_source=x&amp;b=2`)).toBe(`${ARTICLE_URL}?a=1&b=2`);
+  });
+
+  test("leaves strings that are not URLs alone", () => {
+    expect(normalizeUrl(" not a url ")).toBe("not a url");
+  });
+});
+
+describe("redirector unwrapping", () => {
+  const target = encodeURIComponent(`${ARTICLE_URL}?utm_source=wrapped`);
+
+  test.each([
+    `https://www.google.com/url?sa=t&url=${target}`,
+    `https://www.google.co.jp/url?q=${target}`,
+    `https://nam02.safelinks.protection.outlook.com/?url=${target}&data=abc`,
+    `https://l.facebook.com/l.php?u=${target}&h=abc`,
+    `https://l.messenger.com/l.php?u=${target}`,
+    `https://www.linkedin.com/redir/redirect?url=${target}`,
+    `https://www.linkedin.com/safety/go?url=${target}`,
+    `https://slack-redir.net/link?url=${target}`
+  ])("unwraps %s", url => {
+    expect(normalizeUrl(url)).toBe(ARTICLE_URL);
+  });
+
+  test("unwraps redirectors nested inside each other", () => {
+    const safelink = `https://eur01.safelinks.protection.outlook.com/?url=${target}`;
+
+    expect(normalizeUrl(`https://www.google.com/url?q=${encodeURIComponent(safelink)}`)).toBe(ARTICLE_URL);
+  });
+
+  test("stops after five levels of nesting", () => {
+    let url = ARTICLE_URL;
+    for (let i = 0; i < 6; i++) {
+      url = `https://slack-redir.net/link?url=${encodeURIComponent(url)}`;
+    }
+
+    expect(normalizeUrl(url)).toBe(`https://slack-redir.net/link?url=${encodeURIComponent(ARTICLE_URL)}`);
+  });
+
+  test("leaves other pages on redirector hosts and non-http targets alone", () => {
+    const search = "https://www.google.com/search?q=https://example.com";
+    const script = "https://slack-redir.net/link?url=javascript:alert(1)";
+
+    expect(normalizeUrl(search)).toBe(search);
+    expect(normalizeUrl(script)).toBe(script);
+  });
+});
+
+describe("shouldSummarizeUrl", () => {
+  test.each([
+    "mailto:someone@example.com",
+    "https://example.slack.com/archives/C123/p1700000000000100",
+    "https://files.slack.com/files-pri/T1-F1/report.pdf",
+    "https://a.slack-edge.com/production-standard-emoji-assets/14.0/apple-medium/1f600.png",
+    "https://cdn.example.com/photos/cat.JPG",
+    "https://example.com/podcast/episode.mp3"
+  ])("skips %s", url => {
+    expect(shouldSummarizeUrl(url)).toBe(false);
+  });
+
+  test("keeps ordinary slack.com pages", () => {
+    expect(shouldSummarizeUrl("https://api.slack.com/methods/chat.unfurl")).toBe(true);
+  });
+
+  test("skips ignored hosts and their subdomains", () => {
+    const options = { ignoreHosts: ["Example.com"] };
+
+    expect(shouldSummarizeUrl("https://example.com/a", options)).toBe(false);
+    expect(shouldSummarizeUrl("https://docs.example.com/a", options)).toBe(false);
+    expect(shouldSummarizeUrl("https://notexample.com/a", options)).toBe(true);
+  });
+});
+
+describe("expandShortUrls", () => {
+  test("follows shortener redirects and normalizes the destination", async () => {
+    const requested = stubFetch({
+      "https://bit.ly/abc": redirect("https://t.co/xyz"),
+      "https://t.co/xyz": redirect(`${ARTICLE_URL}?utm_source=twitter`)
+    });
+
+    expect(await expandShortUrls(["https://bit.ly/abc"])).toEqual([ARTICLE_URL]);
+    expect(requested).toEqual(["https://bit.ly/abc", "https://t.co/xyz"]);
+  });
+
+  test("resolves relative Location headers against the short URL", async () => {
+    stubFetch({ "https://tinyurl.com/abc": redirect("/next"), "https://tinyurl.com/next": redirect(ARTICLE_URL) });
+
+    expect(await expandShortUrls(["https://tinyurl.com/abc"])).toEqual([ARTICLE_URL]);
+  });
+
+  test("does not request links that are not on a shortener", async () => {
+    const requested = stubFetch({});
+
+    expect(await expandShortUrls([ARTICLE_URL])).toEqual([ARTICLE_URL]);
+    expect(requested).toEqual([]);
+  });
+
+  test("stops after five hops", async () => {
+    const requested = stubFetch({ "https://t.co/*": request => redirect(`${request.url}x`)() });
+
+    expect(await expandShortUrls(["https://t.co/a"])).toEqual(["https://t.co/axxxxx"]);
+    expect(requested).toHaveLength(5);
+  });
+
+  test("keeps the short URL when the request fails or has no Location", async () => {
+    stubFetch({
+      "https://t.co/down": () => {
+        throw new Error("connection reset");
+      },
+      "https://lnkd.in/gone": () => new Response("not found", { status: 404 })
+    });
+
+    expect(await expandShortUrls(["https://t.co/down", "https://lnkd.in/gone"])).toEqual(["https://t.co/down", "https://lnkd.in/gone"]);
+  });
+
+  test("filters and de-duplicates the expanded links", async () => {
+    stubFetch({
+      "https://t.co/img": redirect("https://cdn.example.com/photo.png"),
+      "https://t.co/dup": redirect(`${ARTICLE_URL}/`)
+    });
+
+    expect(await expandShortUrls(["https://t.co/img", "https://t.co/dup", ARTICLE_URL])).toEqual([ARTICLE_URL]);
+  });
+});
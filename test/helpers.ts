@@ -0,0 +1,98 @@
+import { afterEach } from "bun:test";
+import type { Env } from "../src/types";
+
+const FIXTURES_DIR = new URL("./fixtures/", import.meta.url);
+const originalFetch = globalThis.fetch;
+
+export async function fixture(name: string): Promise<string> {
+  return Bun.file(new URL(name, FIXTURES_DIR)).text();
+}
+
+export function htmlResponse(body: string, init: ResponseInit = {}): Response {
+  return new Response(body, { ...init, headers: { "content-type": "text/html; charset=utf-8", ...init.headers } });
+}
+
+type Route = (request: Request) => Response | Promise<Response>;
+
+// Answers fetch() from a table of URL → handler and records every requested URL.
+// A key ending in "*" matches every URL starting with the rest of it.
+// Unknown URLs fail the test instead of reaching the network.
+export function stubFetch(routes: Record<string, Route>): string[] {
+  const requested: string[] = [];
+
+  globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    requested.push(request.url);
+
+    const route = routes[request.url] ?? Object.entries(routes).find(([key]) =>
+      key.endsWith("*") && request.url.startsWith(key.slice(0, -1))
+    )?.[1];
+    if (!route) {
+      throw new Error(`Unexpected fetch: ${request.url}`);
+    }
+    return route(request);
+  }) as typeof fetch;
+
+  return requested;
+}
+
+export interface SlackCall {
+  method: string;
+  body: Record<string, any>;
+}
+
+// Answers every Slack Web API call with { ok: true, ts } and records the calls in order
+export function stubSlack(routes: Record<string, Route> = {}): SlackCall[] {
+  const calls: SlackCall[] = [];
+  let nextTs = 1;
+
+  stubFetch({
+    ...routes,
+    "https://slack.com/api/*": async request => {
+      const url = new URL(request.url);
+      const body: Record<string, any> = request.method === "POST" ? await request.json() : Object.fromEntries(url.searchParams);
+      calls.push({ method: url.pathname.replace("/api/", ""), body });
+      return Response.json({ ok: true, ts: `1700000000.${String(nextTs++).padStart(6, "0")}`, permalink: "https://example.slack.com/archives/C1/p1" });
+    }
+  });
+
+  return calls;
+}
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+// In-memory stand-in for a KV binding: get/put/delete and a single-page list, with "json" reads and TTLs ignored
+export function memoryKv(): KVNamespace {
+  const entries = new Map<string, string>();
+
+  return {
+    get: async (key: string, type?: string) => {
+      const value = entries.get(key);
+      if (value === undefined) return null;
+      return type === "json" ? JSON.parse(value) : value;
+    },
+    put: async (key: string, value: string) => {
+      entries.set(key, value);
+    },
+    delete: async (key: string) => {
+      entries.delete(key);
+    },
+    list: async ({ prefix = "" }: { prefix?: string } = {}) => ({
+      keys: Array.from(entries.keys()).filter(key => key.startsWith(prefix)).sort().map(name => ({ name })),
+      list_complete: true
+    })
+  } as unknown as KVNamespace;
+}
+
+// Enough of Env for the summarization pipeline: no KV, so no cache or budgets
+export function testEnv(overrides: Partial<Env> = {}): Env {
+  return {
+    SLACK_SIGNING_SECRET: "test",
+    SLACK_BOT_TOKEN: "xoxb-test",
+    GEMINI_API_KEY: "test",
+    SUMMARY_PROVIDER: "mock",
+    ...overrides
+  } as Env;
+}
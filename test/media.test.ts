@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import { detectMediaKind, type MediaKind, youtubeTimestampUrl, youtubeVideoId } from "../src/media";
+import { summarizeUrl } from "../src/summarize";
+import { createMockProvider } from "../src/mock-provider";
+import { stubFetch, testEnv } from "./helpers";
+
+const PDF_BYTES = new TextEncoder().encode("%PDF-1.4\n% test document\n%%EOF");
+
+function pdfResponse(): Response {
+  return new Response(PDF_BYTES, { headers: { "content-type": "application/pdf" } });
+}
+
+describe("detectMediaKind", () => {
+  test.each<[string, MediaKind]>([
+    ["https://www.youtube.com/watch?v=dQw4w9WgXcQ", "video"],
+    ["https://youtu.be/dQw4w9WgXcQ", "video"],
+    ["https://example.com/papers/report.PDF", "document"],
+    ["https://x.com/example/status/1234567890", "social"],
+    ["https://twitter.com/i/web/status/1234567890", "social"],
+    ["https://x.com/example", "article"],
+    ["https://www.youtube.com/@example", "article"],
+    ["not a url", "article"]
+  ])("%s is %s", (url, kind) => {
+    expect(detectMediaKind(url)).toBe(kind);
+  });
+});
+
+describe("youtubeVideoId", () => {
+  test.each([
+    "https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42",
+    "https://m.youtube.com/shorts/dQw4w9WgXcQ",
+    "https://www.youtube.com/live/dQw4w9WgXcQ?feature=share",
+    "https://www.youtube.com/embed/dQw4w9WgXcQ"
+  ])("finds the ID in %s", url => {
+    expect(youtubeVideoId(url)).toBe("dQw4w9WgXcQ");
+  });
+
+  test("ignores malformed IDs and pages without a video", () => {
+    expect(youtubeVideoId("https://youtu.be/short")).toBeUndefined();
+    expect(youtubeVideoId("https://www.youtube.com/watch")).toBeUndefined();
+  });
+
+  test("links chapters to their start time", () => {
+    expect(youtubeTimestampUrl("https://youtu.be/dQw4w9WgXcQ", "1:02:03")).toBe("https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=3723s");
+    expect(youtubeTimestampUrl("https://youtu.be/dQw4w9WgXcQ", "soon")).toBeUndefined();
+  });
+});
+
+describe("summarizeUrl by media kind", () => {
+  test("YouTube links are watched as videos and get chapters", async () => {
+    const requested = stubFetch({});
+
+    const result = await summarizeUrl("https://youtu.be/dQw4w9WgXcQ", createMockProvider(), testEnv());
+
+    expect(requested).toEqual([]);
+    expect(result.source).toBe("video");
+    expect(result.url).toBe("https://www.youtube.com/watch?v=dQw4w9WgXcQ");
+    expect(result.structured.chapters?.map(chapter => chapter.start)).toEqual(["0:00", "1:30"]);
+  });
+
+  test("PDF links are downloaded and summarized with page numbers", async () => {
+    const url = "https://example.com/papers/annual%20report.pdf";
+    stubFetch({ [url]: pdfResponse });
+
+    const result = await summarizeUrl(url, createMockProvider(), testEnv());
+
+    expect(result.source).toBe("fetched");
+    expect(result.url).toBe(url);
+    expect(result.title).toBe("Mock: annual report.pdf");
+    expect(result.structured.bullets.every(bullet => bullet.endsWith("(p.1)"))).toBe(true);
+  });
+
+  test("links that turn out to serve a PDF are summarized as documents", async () => {
+    const url = "https://example.com/download?id=42";
+    stubFetch({ [url]: pdfResponse });
+    const { summarizeUrl: _, ...provider } = createMockProvider();
+
+    const result = await summarizeUrl(url, provider, testEnv());
+
+    expect(result.structured.bullets[0]).toContain("(p.1)");
+  });
+
+  test("X posts are read through oEmbed and summarized in one bullet", async () => {
+    const requested = stubFetch({
+      "https://publish.twitter.com/oembed?url=https%3A%2F%2Ftwitter.com%2Fexample%2Fstatus%2F1234567890&omit_script=true&dnt=true": () =>
+        Response.json({
+          author_name: "Example",
+          html: `<blockquote class="twitter-tweet"><p lang="en">Edge caches are faster than you think.<br>Here&#39;s why.</p>&mdash; Example (@example) <a href="https://twitter.com/example/status/1234567890">March 14, 2025</a></blockquote>`
+        })
+    });
+
+    const result = await summarizeUrl("https://x.com/example/status/1234567890?s=20", createMockProvider(), testEnv());
+
+    expect(requested).toHaveLength(1);
+    expect(result.title).toBe("Example の投稿");
+    expect(result.structured.bullets).toHaveLength(1);
+    expect(result.structured.bullets[0]).toContain("Edge caches are faster");
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import { extractArticle, MAX_TEXT_LENGTH } from "../src/readability";
+import { fixture } from "./helpers";
+
+describe("extractArticle", () => {
+  test("reads the article body and og: metadata", async () => {
+    const article = extractArticle(await fixture("article.html"));
+
+    expect(article.title).toBe("Edge Caching Explained");
+    expect(article.siteName).toBe("Example Tech");
+    expect(article.description).toBe("How edge caches keep pages fast.");
+    expect(article.publishedAt).toContain("2025-03-14");
+    expect(article.text).toContain("Edge caching stores copies of responses");
+    expect(article.text).toContain("Purging by tag");
+  });
+
+  test("leaves out navigation, sidebars, footers and scripts", async () => {
+    const { text } = extractArticle(await fixture("article.html"));
+
+    expect(text).not.toContain("Subscribe to our newsletter");
+    expect(text).not.toContain("Ten CDN myths");
+    expect(text).not.toContain("All rights reserved");
+    expect(text).not.toContain("analytics");
+  });
+
+  test("finds almost no text on a login wall", async () => {
+    const { text } = extractArticle(await fixture("login-wall.html"));
+
+    expect(text.length).toBeLessThan(200);
+  });
+
+  test("caps the text at MAX_TEXT_LENGTH", () => {
+    const paragraph = `<p>${"A long sentence about caching that keeps going. ".repeat(50)}</p>`;
+    const { text } = extractArticle(`<html><body><article>${paragraph.repeat(40)}</article></body></html>`);
+
+    expect(text.length).toBe(MAX_TEXT_LENGTH);
+  });
+});
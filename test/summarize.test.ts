@@ -0,0 +1,160 @@
+import { describe, expect, test } from "bun:test";
+import { summarizeUrl, summarizeUrls } from "../src/summarize";
+import { fetchPage, PageFetchError } from "../src/fetch-page";
+import { SummaryError } from "../src/errors";
+import { BudgetExceededError, getUsageReport } from "../src/usage";
+import { createMockProvider } from "../src/mock-provider";
+import type { SummarizationProvider } from "../src/provider";
+import { fixture, htmlResponse, memoryKv, stubFetch, testEnv } from "./helpers";
+
+const ARTICLE_URL = "https://tech.example.com/edge-caching";
+
+// The mock provider, with URLContext failing the way Gemini reports it
+function providerFailingWith(error: SummaryError): SummarizationProvider {
+  return {
+    ...createMockProvider(),
+    summarizeUrl: async () => {
+      throw error;
+    }
+  };
+}
+
+describe("summarizeUrl fallback", () => {
+  test("fetches and extracts the page itself when URLContext is blocked", async () => {
+    const html = await fixture("article.html");
+    const requested = stubFetch({ [ARTICLE_URL]: () => htmlResponse(html) });
+    const provider = providerFailingWith(new SummaryError("fetch_blocked", "blocked", { url: ARTICLE_URL }));
+
+    const result = await summarizeUrl(ARTICLE_URL, provider, testEnv());
+
+    expect(requested).toEqual([ARTICLE_URL]);
+    expect(result.source).toBe("fetched");
+    expect(result.title).toBe("Edge Caching Explained");
+    expect(result.structured.bullets.join(" ")).toContain("Edge caching stores copies");
+  });
+
+  test("keeps the URLContext error when the fetched page is a login wall", async () => {
+    const html = await fixture("login-wall.html");
+    stubFetch({ [ARTICLE_URL]: () => htmlResponse(html) });
+    const blocked = new SummaryError("fetch_blocked", "blocked", { url: ARTICLE_URL });
+
+    await expect(summarizeUrl(ARTICLE_URL, providerFailingWith(blocked), testEnv())).rejects.toBe(blocked);
+  });
+
+  test("does not fetch paywalled pages", async () => {
+    const requested = stubFetch({});
+    const paywalled = new SummaryError("paywalled", "paywall", { url: ARTICLE_URL });
+
+    await expect(summarizeUrl(ARTICLE_URL, providerFailingWith(paywalled), testEnv())).rejects.toBe(paywalled);
+    expect(requested).toEqual([]);
+  });
+
+  test("providers that cannot read URLs always get the extracted page", async () => {
+    const html = await fixture("article.html");
+    stubFetch({ [ARTICLE_URL]: () => htmlResponse(html) });
+    const { summarizeUrl: _, ...provider } = createMockProvider();
+
+    const result = await summarizeUrl(ARTICLE_URL, provider, testEnv());
+
+    expect(result.source).toBe("fetched");
+    expect(result.title).toBe("Edge Caching Explained");
+  });
+});
+
+describe("summarizeUrls", () => {
+  test("reports each failure next to the other summaries", async () => {
+    const unavailable = new SummaryError("upstream_error", "HTTP 503", { url: ARTICLE_URL, status: 503 });
+
+    const outcomes = await summarizeUrls([ARTICLE_URL], providerFailingWith(unavailable), testEnv());
+
+    expect(outcomes).toHaveLength(1);
+    expect(outcomes[0].ok).toBe(false);
+  });
+
+  test("throws transient failures when the queue retries the job", async () => {
+    const unavailable = new SummaryError("upstream_error", "HTTP 503", { url: ARTICLE_URL, status: 503 });
+    const paywalled = new SummaryError("paywalled", "paywall", { url: ARTICLE_URL });
+
+    await expect(summarizeUrls([ARTICLE_URL], providerFailingWith(unavailable), testEnv(), { throwRetryable: true })).rejects.toBe(unavailable);
+    const outcomes = await summarizeUrls([ARTICLE_URL], providerFailingWith(paywalled), testEnv(), { throwRetryable: true });
+    expect(outcomes[0].ok).toBe(false);
+  });
+});
+
+describe("usage budgets", () => {
+  // The mock provider, reporting 60 tokens for every summary
+  const mock = createMockProvider();
+  const provider: SummarizationProvider = {
+    ...mock,
+    summarizeUrl: async (url, request) => ({
+      ...(await mock.summarizeUrl!(url, request)),
+      usage: { inputTokens: 50, outputTokens: 10, totalTokens: 60 }
+    })
+  };
+
+  test("are checked before each link, not once per message", async () => {
+    const env = testEnv({ DEDUP: memoryKv(), SUMMARY_CACHE_TTL: "0", SUMMARY_CONCURRENCY: "1", USAGE_DAILY_USER_TOKENS: "100" });
+    const urls = ["https://a.example/1", "https://a.example/2", "https://a.example/3"];
+
+    const outcomes = await summarizeUrls(urls, provider, env, { usage: { channel: "C1", user: "U1" } });
+
+    expect(outcomes.map(outcome => outcome.ok)).toEqual([true, true, false]);
+    expect(outcomes[2].ok || outcomes[2].error).toBeInstanceOf(BudgetExceededError);
+  });
+
+  test("count the month and models per workspace", async () => {
+    const env = testEnv({ DEDUP: memoryKv(), SUMMARY_CACHE_TTL: "0", SUMMARY_CONCURRENCY: "1", USAGE_MONTHLY_TOKENS: "60" });
+
+    const first = await summarizeUrls(["https://a.example/1", "https://a.example/2"], provider, env, { usage: { team: "T1" } });
+    const other = await summarizeUrls(["https://a.example/3"], provider, env, { usage: { team: "T2" } });
+
+    expect(first.map(outcome => outcome.ok)).toEqual([true, false]);
+    expect(other[0].ok).toBe(true);
+    const report = await getUsageReport(env, { team: "T2" });
+    expect(report.monthly.totalTokens).toBe(60);
+    expect(Object.values(report.models).map(counter => counter.totalTokens)).toEqual([60]);
+  });
+});
+
+describe("fetchPage", () => {
+  test("follows redirects and reports the final URL", async () => {
+    const html = await fixture("article.html");
+    stubFetch({
+      "https://short.example/a": () => new Response(null, { status: 301, headers: { location: ARTICLE_URL } }),
+      [ARTICLE_URL]: () => htmlResponse(html)
+    });
+
+    const page = await fetchPage("https://short.example/a");
+
+    expect(page.url).toBe(ARTICLE_URL);
+    expect(page.contentType).toBe("text/html");
+  });
+
+  test("rejects content types it cannot extract", async () => {
+    stubFetch({ [ARTICLE_URL]: () => new Response("{}", { headers: { "content-type": "application/json" } }) });
+
+    const error = await fetchPage(ARTICLE_URL).catch(error => error);
+
+    expect(error).toBeInstanceOf(PageFetchError);
+    expect(error.reason).toBe("unsupported_type");
+    expect(error.contentType).toBe("application/json");
+  });
+
+  test("truncates pages over the size limit", async () => {
+    stubFetch({ [ARTICLE_URL]: () => htmlResponse(`<p>${"x".repeat(5000)}</p>`) });
+
+    const page = await fetchPage(ARTICLE_URL, { maxBytes: 1000 });
+
+    expect(page.truncated).toBe(true);
+    expect(page.body.length).toBe(1000);
+  });
+
+  test("reports HTTP errors with the status", async () => {
+    stubFetch({ [ARTICLE_URL]: () => new Response("gone", { status: 404 }) });
+
+    const error = await fetchPage(ARTICLE_URL).catch(error => error);
+
+    expect(error.reason).toBe("http_error");
+    expect(error.status).toBe(404);
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, expect, test } from "bun:test";
+import worker from "../src/worker";
+import { createInteractionJob, type SummaryJob } from "../src/jobs";
+import { saveReplyContext } from "../src/replies";
+import { RETRYING_TEXT } from "../src/progress";
+import { SUMMARY_ACTIONS } from "../src/render";
+import { DEFAULT_CHANNEL_SETTINGS, saveChannelSettings } from "../src/settings";
+import type { Env, SlackEvent } from "../src/types";
+import { memoryKv, stubSlack, testEnv } from "./helpers";
+
+const UNFURL_URL = "https://news.example.com/story";
+const OTHER_URL = "https://blog.example.org/post";
+
+let nextEventId = 1;
+
+// Runs one event through the queue consumer, the way /slack/events hands it over
+async function runEvent(event: SlackEvent, env: Env, attempts = 1): Promise<void> {
+  await runJob({
+    kind: "slack_event",
+    envelope: { type: "event_callback", team_id: "T1", event_id: `Ev${nextEventId++}`, event },
+    receivedAt: Date.now()
+  }, env, attempts);
+}
+
+async function runJob(job: SummaryJob, env: Env, attempts = 1): Promise<void> {
+  const message = {
+    body: job,
+    attempts,
+    ack: () => {},
+    retry: () => {
+      throw new Error("Job was retried");
+    }
+  };
+
+  await worker.queue({ queue: "webpage-summarizer-jobs", messages: [message] } as unknown as MessageBatch<SummaryJob>, env);
+}
+
+function modeEnv(mode: "unfurl" | "thread"): Env {
+  return testEnv({ DEDUP: memoryKv(), LINK_SHARED_MODE: mode, UNFURL_DOMAINS: "example.com" });
+}
+
+function messageEvent(...urls: string[]): SlackEvent {
+  return { type: "message", channel: "C1", channel_type: "channel", user: "U1", ts: "1700000000.000100", text: urls.map(url => `<${url}>`).join(" ") };
+}
+
+function linkSharedEvent(overrides: Partial<SlackEvent> = {}): SlackEvent {
+  return {
+    type: "link_shared",
+    channel: "C1",
+    user: "U1",
+    message_ts: "1700000000.000100",
+    links: [{ url: UNFURL_URL, domain: "example.com" }],
+    source: "conversations_history",
+    is_bot_user_member: true,
+    ...overrides
+  };
+}
+
+const COMPOSER_EVENT: Partial<SlackEvent> = {
+  channel: "COMPOSER",
+  message_ts: "Uxxxxxxx-909b5454-75f8-4ac4-b325-1b40e230bbd8",
+  unfurl_id: "Uxxxxxxx-909b5454-75f8-4ac4-b325-1b40e230bbd8",
+  source: "composer"
+};
+
+describe("LINK_SHARED_MODE=unfurl", () => {
+  test("the message path leaves links on the unfurl domains to chat.unfurl", async () => {
+    const env = modeEnv("unfurl");
+    const calls = stubSlack();
+
+    await runEvent(messageEvent(UNFURL_URL), env);
+    await runEvent(linkSharedEvent(), env);
+
+    expect(calls.filter(call => call.method === "chat.postMessage")).toEqual([]);
+    const unfurls = calls.filter(call => call.method === "chat.unfurl");
+    expect(unfurls).toHaveLength(1);
+    expect(unfurls[0].body.channel).toBe("C1");
+    expect(Object.keys(unfurls[0].body.unfurls)).toEqual([UNFURL_URL]);
+  });
+
+  test("other links in the message still get a thread reply", async () => {
+    const env = modeEnv("unfurl");
+    const calls = stubSlack();
+
+    await runEvent(messageEvent(UNFURL_URL, OTHER_URL), env);
+
+    const placeholder = calls.find(call => call.method === "chat.postMessage");
+    const summary = calls.find(call => call.method === "chat.update");
+    expect(placeholder?.body.thread_ts).toBe("1700000000.000100");
+    expect(summary?.body.text).toContain(OTHER_URL);
+    expect(summary?.body.text).not.toContain(UNFURL_URL);
+  });
+
+  test("composer previews are unfurled by unfurl_id and never recorded", async () => {
+    const env = modeEnv("unfurl");
+    const calls = stubSlack();
+
+    await runEvent(linkSharedEvent(COMPOSER_EVENT), env);
+
+    expect(calls.map(call => call.method)).toEqual(["chat.unfurl"]);
+    expect(calls[0].body).toMatchObject({ unfurl_id: COMPOSER_EVENT.unfurl_id, source: "composer" });
+    expect(calls[0].body.channel).toBeUndefined();
+  });
+});
+
+describe("LINK_SHARED_MODE=thread", () => {
+  test("a message in a channel the bot is in gets exactly one thread reply", async () => {
+    const env = modeEnv("thread");
+    const calls = stubSlack();
+
+    await runEvent(messageEvent(UNFURL_URL), env);
+    await runEvent(linkSharedEvent(), env);
+
+    expect(calls.filter(call => call.method === "chat.postMessage")).toHaveLength(1);
+    expect(calls.filter(call => call.method === "chat.unfurl")).toEqual([]);
+  });
+
+  test("link_shared replies in the thread where the bot gets no message events", async () => {
+    const env = modeEnv("thread");
+    const calls = stubSlack();
+
+    await runEvent(linkSharedEvent({ is_bot_user_member: false }), env);
+
+    const posts = calls.filter(call => call.method === "chat.postMessage");
+    expect(posts).toHaveLength(1);
+    expect(posts[0].body).toMatchObject({ channel: "C1", thread_ts: "1700000000.000100" });
+  });
+
+  test("composer previews are skipped", async () => {
+    const env = modeEnv("thread");
+    const calls = stubSlack();
+
+    await runEvent(linkSharedEvent(COMPOSER_EVENT), env);
+
+    expect(calls).toEqual([]);
+  });
+});
+
+describe("mentions", () => {
+  test("a mention with a link in a normal channel is summarized once", async () => {
+    const env = modeEnv("thread");
+    const calls = stubSlack();
+
+    await runEvent(messageEvent(OTHER_URL), env);
+    await runEvent({ ...messageEvent(OTHER_URL), type: "app_mention" }, env);
+
+    expect(calls.filter(call => call.method === "chat.postMessage")).toHaveLength(1);
+  });
+
+  test("mention-only channels answer the mention and ignore the message event", async () => {
+    const env = modeEnv("thread");
+    await saveChannelSettings(env.DEDUP, "C1", { ...DEFAULT_CHANNEL_SETTINGS, mentionOnly: true });
+    const calls = stubSlack();
+
+    await runEvent(messageEvent(OTHER_URL), env);
+    expect(calls).toEqual([]);
+
+    await runEvent({ ...messageEvent(OTHER_URL), type: "app_mention" }, env);
+    expect(calls.filter(call => call.method === "chat.postMessage")).toHaveLength(1);
+  });
+});
+
+describe("interaction jobs", () => {
+  test("the queue consumer re-summarizes a reply when its button was clicked", async () => {
+    const env = modeEnv("thread");
+    await saveReplyContext(env.DEDUP, "C1", "1700000000.000200", { urls: [OTHER_URL], language: "ja", style: "standard" });
+    const calls = stubSlack();
+
+    await runJob(createInteractionJob({
+      type: "block_actions",
+      user: { id: "U1", team_id: "T1" },
+      channel: { id: "C1" },
+      message: { ts: "1700000000.000200" },
+      actions: [{ type: "button", action_id: SUMMARY_ACTIONS.detail }]
+    }), env);
+
+    const update = calls.find(call => call.method === "chat.update");
+    expect(update?.body).toMatchObject({ channel: "C1", ts: "1700000000.000200" });
+    expect(update?.body.text).toContain(OTHER_URL);
+  });
+});
+
+describe("failed summaries", () => {
+  // Gemini answering 503 on every call, behind a bound summary queue
+  function unavailableEnv(): Env {
+    return { ...modeEnv("thread"), SUMMARY_PROVIDER: "gemini", SUMMARY_QUEUE: { send: async () => {} } as unknown as Queue<SummaryJob> };
+  }
+  const geminiUnavailable = { "https://generativelanguage.googleapis.com/*": () => new Response("unavailable", { status: 503 }) };
+
+  test("the placeholder says the job is retried while the queue has retries left", async () => {
+    const calls = stubSlack(geminiUnavailable);
+
+    await expect(runEvent(messageEvent(OTHER_URL), unavailableEnv())).rejects.toThrow("Job was retried");
+
+    const update = calls.find(call => call.method === "chat.update");
+    expect(update?.body.text).toBe(RETRYING_TEXT);
+  });
+
+  test("the last attempt replies with the failure instead of promising a retry", async () => {
+    const calls = stubSlack(geminiUnavailable);
+
+    await runEvent(messageEvent(OTHER_URL), unavailableEnv(), 5);
+
+    const texts = calls.filter(call => call.method === "chat.update").map(call => call.body.text);
+    expect(texts).toHaveLength(1);
+    expect(texts[0]).toContain(OTHER_URL);
+    expect(texts).not.toContain(RETRYING_TEXT);
+  });
+});